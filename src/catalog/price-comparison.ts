@@ -0,0 +1,75 @@
+import { siteConfigs } from '../sites/site-config-store';
+import { CanonicalOfferRow } from '../storage/price-repository';
+import { PriceComparison, SiteOffer } from '../types';
+
+const round = (value: number, digits: number): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const toOffer = (row: CanonicalOfferRow): SiteOffer => ({
+  domain: row.domain,
+  siteName: siteConfigs.get(row.domain)?.name || row.site_name,
+  productName: row.product_name,
+  price: row.price,
+  currency: row.currency,
+  unitPrice: round(row.price / row.amount, 4),
+  inStock: row.in_stock,
+  discountPercent: row.discount_percent ?? undefined,
+  url: row.url,
+  scrapedAt: row.scraped_at
+});
+
+// One comparison per canonical product and currency - a TRY and a USD price are not comparable
+export const buildPriceComparisons = (rows: CanonicalOfferRow[]): PriceComparison[] => {
+  const groups = new Map<string, CanonicalOfferRow[]>();
+  rows.forEach(row => {
+    const key = `${row.canonical_product_id}|${row.currency}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const comparisons: PriceComparison[] = [];
+  for (const group of groups.values()) {
+    const first = group[0];
+
+    // A site listing the same product twice is represented by its best buyable offer
+    const bySite = new Map<string, SiteOffer>();
+    group.map(toOffer).forEach(offer => {
+      const current = bySite.get(offer.domain);
+      const better = !current ||
+        (offer.inStock && !current.inStock) ||
+        (offer.inStock === current.inStock && offer.price < current.price);
+      if (better) bySite.set(offer.domain, offer);
+    });
+
+    const offers = Array.from(bySite.values()).sort((a, b) => {
+      if (a.inStock !== b.inStock) return a.inStock ? -1 : 1;
+      return a.price - b.price;
+    });
+
+    // Out-of-stock offers are listed but never count as cheapest or most expensive
+    const buyable = offers.filter(offer => offer.inStock);
+    const cheapest = buyable.length > 0 ? buyable[0] : null;
+    const mostExpensive = buyable.length > 0 ? buyable[buyable.length - 1] : null;
+    const spread = cheapest && mostExpensive ? round(mostExpensive.price - cheapest.price, 2) : null;
+
+    comparisons.push({
+      canonicalProductId: first.canonical_product_id,
+      canonicalKey: first.canonical_key,
+      displayName: first.display_name,
+      game: first.game_slug,
+      amount: first.amount,
+      unit: first.unit,
+      region: first.region,
+      currency: first.currency,
+      offers,
+      cheapest,
+      mostExpensive,
+      spread,
+      spreadPercent: spread !== null && cheapest.price > 0 ? round(spread / cheapest.price * 100, 1) : null,
+      inStockSites: buyable.length
+    });
+  }
+
+  return comparisons;
+};
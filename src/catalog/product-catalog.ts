@@ -0,0 +1,200 @@
+import { catalogRepository } from '../storage/catalog-repository';
+import { priceRepository } from '../storage/price-repository';
+import { BatchResult, CatalogOverride, NormalizedProduct } from '../types';
+import { extractDomain } from '../utils/helpers';
+import {
+  GAMES,
+  UNIT_LABELS,
+  buildCanonicalKey,
+  buildDisplayName,
+  normalizeProductTitle
+} from './product-normalizer';
+import { toSearchKey } from '../utils/text-normalizer';
+
+export class CatalogValidationError extends Error {}
+
+export interface OverrideInput {
+  title: string;
+  domain?: string;
+  canonicalKey?: string;
+  game?: string;
+  amount?: number;
+  unit?: string;
+  region?: string;
+}
+
+export class ProductCatalog {
+  private overrides: Map<string, CatalogOverride> | null = null;
+  private canonicalIds: Map<string, number> = new Map();
+  private gameIds: Map<string, number> = new Map();
+
+  async match(title: string, url: string, domain: string, fallbackRegion: string = 'TR'): Promise<NormalizedProduct> {
+    const normalized = normalizeProductTitle(title, url, fallbackRegion);
+    const overrides = await this.loadOverrides();
+
+    // Site-specific overrides win over catalog-wide ones
+    const override = overrides.get(`${domain}|${normalized.titleKey}`) || overrides.get(`|${normalized.titleKey}`);
+    if (!override) return normalized;
+
+    return {
+      ...normalized,
+      game: override.game_slug,
+      denomination: { amount: override.amount, unit: override.unit },
+      region: override.region,
+      canonicalKey: override.canonical_key,
+      displayName: override.display_name,
+      matchedBy: 'override'
+    };
+  }
+
+  async annotateBatch(batchResult: BatchResult): Promise<number> {
+    let matched = 0;
+    const siteIds = new Map<string, number>();
+
+    for (const result of batchResult.results) {
+      if (!result.success) continue;
+
+      for (const item of result.items) {
+        const domain = item.siteName || extractDomain(item.url);
+        const normalized = await this.match(item.title, item.url, domain, item.region);
+
+        if (!siteIds.has(domain)) {
+          siteIds.set(domain, await priceRepository.ensureSite(domain));
+        }
+        item.siteId = siteIds.get(domain);
+
+        if (normalized.game !== 'unknown') {
+          item.gameSlug = normalized.game;
+          item.gameId = await this.ensureGameId(normalized.game);
+        }
+
+        if (normalized.canonicalKey) {
+          item.canonicalKey = normalized.canonicalKey;
+          item.canonicalProductId = await this.ensureCanonicalId(normalized);
+          matched++;
+        }
+      }
+    }
+
+    return matched;
+  }
+
+  async createOverride(input: OverrideInput): Promise<{ overrideId: number; canonicalKey: string; relinked: number }> {
+    const domain = input.domain || '';
+    const titleKey = toSearchKey(input.title);
+    if (!titleKey) throw new CatalogValidationError('title is required');
+
+    let canonicalProductId: number;
+    let canonicalKey: string;
+
+    if (input.canonicalKey) {
+      const existing = await catalogRepository.getCanonicalProduct(input.canonicalKey);
+      if (!existing) throw new CatalogValidationError(`Unknown canonical product ${input.canonicalKey}`);
+      canonicalProductId = existing.id;
+      canonicalKey = existing.canonical_key;
+    } else {
+      if (!input.game || !(Number(input.amount) > 0) || !input.unit) {
+        throw new CatalogValidationError('Either canonicalKey or game, amount and unit are required');
+      }
+      if (!GAMES.some(game => game.slug === input.game)) {
+        throw new CatalogValidationError(`Unknown game ${input.game}, expected one of: ${GAMES.map(game => game.slug).join(', ')}`);
+      }
+
+      const unit = input.unit.toUpperCase();
+      if (!UNIT_LABELS[unit]) {
+        throw new CatalogValidationError(`Unknown unit ${input.unit}, expected one of: ${Object.keys(UNIT_LABELS).join(', ')}`);
+      }
+
+      const region = (input.region || 'TR').toUpperCase();
+      const amount = Number(input.amount);
+      canonicalKey = buildCanonicalKey(input.game, amount, unit, region);
+      canonicalProductId = await this.ensureCanonicalId({
+        game: input.game,
+        denomination: { amount, unit },
+        region,
+        titleKey,
+        canonicalKey,
+        displayName: buildDisplayName(input.game, amount, unit, region),
+        matchedBy: 'override'
+      });
+    }
+
+    const overrideId = await catalogRepository.upsertOverride(domain, input.title, titleKey, canonicalProductId);
+    this.overrides = null;
+
+    const relinked = await this.relink(domain || undefined);
+    return { overrideId, canonicalKey, relinked };
+  }
+
+  async deleteOverride(id: number): Promise<boolean> {
+    const deleted = await catalogRepository.deleteOverride(id);
+    if (!deleted) return false;
+
+    this.overrides = null;
+    await this.relink(deleted.domain || undefined);
+    return true;
+  }
+
+  // Re-applies rules and overrides to products that were stored before they existed
+  async relink(domain?: string): Promise<number> {
+    const products = await catalogRepository.getProducts({ domain });
+    const changes = new Map<number | null, number[]>();
+
+    for (const product of products) {
+      const normalized = await this.match(product.product_name, product.url, product.domain, product.region);
+      const canonicalProductId = normalized.canonicalKey ? await this.ensureCanonicalId(normalized) : null;
+
+      if (canonicalProductId !== product.canonical_product_id) {
+        const ids = changes.get(canonicalProductId) || [];
+        ids.push(product.id);
+        changes.set(canonicalProductId, ids);
+      }
+    }
+
+    let relinked = 0;
+    for (const [canonicalProductId, ids] of changes.entries()) {
+      relinked += await catalogRepository.linkProducts(ids, canonicalProductId);
+    }
+    return relinked;
+  }
+
+  private async loadOverrides(): Promise<Map<string, CatalogOverride>> {
+    if (!this.overrides) {
+      const overrides = new Map<string, CatalogOverride>();
+      for (const override of await catalogRepository.getOverrides()) {
+        overrides.set(`${override.domain}|${override.title_key}`, override);
+      }
+      this.overrides = overrides;
+    }
+    return this.overrides;
+  }
+
+  private async ensureGameId(slug: string): Promise<number> {
+    let gameId = this.gameIds.get(slug);
+    if (gameId === undefined) {
+      const name = GAMES.find(game => game.slug === slug)?.name || slug;
+      gameId = await catalogRepository.ensureGame(slug, name);
+      this.gameIds.set(slug, gameId);
+    }
+    return gameId;
+  }
+
+  private async ensureCanonicalId(normalized: NormalizedProduct): Promise<number> {
+    let canonicalId = this.canonicalIds.get(normalized.canonicalKey);
+    if (canonicalId === undefined) {
+      const gameId = await this.ensureGameId(normalized.game);
+      canonicalId = await catalogRepository.ensureCanonicalProduct(
+        gameId,
+        normalized.canonicalKey,
+        normalized.denomination.amount,
+        normalized.denomination.unit,
+        normalized.region,
+        normalized.displayName
+      );
+      this.canonicalIds.set(normalized.canonicalKey, canonicalId);
+    }
+    return canonicalId;
+  }
+}
+
+export const productCatalog = new ProductCatalog();
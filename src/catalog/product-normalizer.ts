@@ -0,0 +1,179 @@
+import { NormalizedProduct } from '../types';
+import { foldText, toSearchKey } from '../utils/text-normalizer';
+
+interface GameDefinition {
+  slug: string;
+  name: string;
+  keywords: string[];
+  units: string[];
+}
+
+// Order matters: more specific names must come before the ones they contain
+export const GAMES: GameDefinition[] = [
+  { slug: 'mobile-legends', name: 'Mobile Legends', keywords: ['mobile legends', 'mlbb'], units: ['ELMAS'] },
+  { slug: 'pubg-new-state', name: 'PUBG New State', keywords: ['new state'], units: ['NC'] },
+  { slug: 'pubg', name: 'PUBG Mobile', keywords: ['pubg'], units: ['UC'] },
+  { slug: 'valorant', name: 'Valorant', keywords: ['valorant'], units: ['VP'] },
+  { slug: 'lol', name: 'League of Legends', keywords: ['league of legends', 'lol'], units: ['RP'] },
+  { slug: 'free-fire', name: 'Free Fire', keywords: ['free fire', 'garena'], units: ['ELMAS'] },
+  { slug: 'genshin-impact', name: 'Genshin Impact', keywords: ['genshin'], units: ['GENESIS'] },
+  { slug: 'honor-of-kings', name: 'Honor of Kings', keywords: ['honor of kings'], units: ['JETON'] },
+  { slug: 'roblox', name: 'Roblox', keywords: ['roblox'], units: ['ROBUX'] },
+  { slug: 'zula', name: 'Zula', keywords: ['zula'], units: ['ALTIN'] },
+  { slug: 'point-blank', name: 'Point Blank', keywords: ['point blank'], units: ['TG'] },
+  { slug: 'steam', name: 'Steam', keywords: ['steam'], units: ['TRY', 'USD', 'EUR'] },
+  { slug: 'razer-gold', name: 'Razer Gold', keywords: ['razer'], units: ['TRY', 'USD'] }
+];
+
+const UNIT_ALIASES: { pattern: string; unit: string }[] = [
+  { pattern: 'uc', unit: 'UC' },
+  { pattern: 'valorant points?', unit: 'VP' },
+  { pattern: 'vp', unit: 'VP' },
+  { pattern: 'riot points?', unit: 'RP' },
+  { pattern: 'rp', unit: 'RP' },
+  { pattern: 'elmas', unit: 'ELMAS' },
+  { pattern: 'diamonds?', unit: 'ELMAS' },
+  { pattern: 'robux', unit: 'ROBUX' },
+  { pattern: 'jetons?', unit: 'JETON' },
+  { pattern: 'tokens?', unit: 'JETON' },
+  { pattern: 'genesis crystals?', unit: 'GENESIS' },
+  { pattern: 'kristal', unit: 'GENESIS' },
+  { pattern: 'altin', unit: 'ALTIN' },
+  { pattern: 'tg', unit: 'TG' },
+  { pattern: 'nc', unit: 'NC' },
+  { pattern: 'tl', unit: 'TRY' },
+  { pattern: 'try', unit: 'TRY' },
+  { pattern: 'usd', unit: 'USD' },
+  { pattern: 'euro?', unit: 'EUR' }
+];
+
+const CURRENCY_UNITS = new Set(['TRY', 'USD', 'EUR']);
+
+export const UNIT_LABELS: { [unit: string]: string } = {
+  UC: 'UC',
+  VP: 'VP',
+  RP: 'RP',
+  ELMAS: 'Elmas',
+  ROBUX: 'Robux',
+  JETON: 'Jeton',
+  GENESIS: 'Genesis Crystal',
+  ALTIN: 'Altın',
+  TG: 'TG',
+  NC: 'NC',
+  TRY: 'TL',
+  USD: 'USD',
+  EUR: 'EUR'
+};
+
+const REGION_TOKENS: { [token: string]: string } = {
+  tr: 'TR',
+  turkiye: 'TR',
+  turkey: 'TR',
+  global: 'GLOBAL',
+  worldwide: 'GLOBAL',
+  eu: 'EU',
+  europe: 'EU',
+  avrupa: 'EU',
+  us: 'US',
+  usa: 'US',
+  na: 'US',
+  abd: 'US',
+  mena: 'MENA'
+};
+
+const AMOUNT = '\\d{1,3}(?:[.,]\\d{3})+|\\d+(?:[.,]\\d{1,2})?';
+
+const DENOMINATION_PATTERN = new RegExp(
+  `((?:${AMOUNT})(?:\\s*\\+\\s*(?:${AMOUNT}))*)\\s*(?:adet\\s+)?(${UNIT_ALIASES.map(a => a.pattern).join('|')})(?![a-z0-9])`,
+  'g'
+);
+
+const foldTitle = (text: string): string => {
+  return foldText(text).replace(/[_\-/]+/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const parseAmount = (value: string): number => {
+  if (/^\d{1,3}(?:[.,]\d{3})+$/.test(value)) return Number(value.replace(/[.,]/g, ''));
+  return Number(value.replace(',', '.'));
+};
+
+const resolveUnit = (alias: string): string => {
+  const entry = UNIT_ALIASES.find(a => new RegExp(`^(?:${a.pattern})$`).test(alias));
+  return entry ? entry.unit : alias.toUpperCase();
+};
+
+const findDenomination = (text: string): { amount: number; unit: string } | undefined => {
+  const matches = Array.from(text.matchAll(DENOMINATION_PATTERN)).map(match => ({
+    amount: match[1].split('+').reduce((sum, part) => sum + parseAmount(part.trim()), 0),
+    unit: resolveUnit(match[2])
+  })).filter(match => match.amount > 0);
+
+  // In-game currencies beat face values like "Steam 100 TL" appearing next to them
+  return matches.find(match => !CURRENCY_UNITS.has(match.unit)) || matches[0];
+};
+
+const findGame = (text: string): GameDefinition | undefined => {
+  return GAMES.find(game => game.keywords.some(keyword => new RegExp(`(^|[^a-z])${keyword}([^a-z]|$)`).test(text)));
+};
+
+const findRegion = (text: string): string | undefined => {
+  for (const word of text.split(/[^a-z]+/)) {
+    if (REGION_TOKENS[word]) return REGION_TOKENS[word];
+  }
+  return undefined;
+};
+
+const lastPathSegment = (url: string): string => {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return foldTitle(decodeURIComponent(segments[segments.length - 1] || ''));
+  } catch {
+    return '';
+  }
+};
+
+export const buildCanonicalKey = (game: string, amount: number, unit: string, region: string): string => {
+  return `${game}:${amount}${unit.toLowerCase()}:${region.toLowerCase()}`;
+};
+
+export const buildDisplayName = (game: string, amount: number, unit: string, region: string): string => {
+  const gameName = GAMES.find(g => g.slug === game)?.name || game;
+  return `${gameName} ${amount.toLocaleString('tr-TR')} ${UNIT_LABELS[unit] || unit} (${region})`;
+};
+
+export const normalizeProductTitle = (title: string, url: string = '', fallbackRegion: string = 'TR'): NormalizedProduct => {
+  const titleText = foldTitle(title);
+  const urlText = lastPathSegment(url);
+
+  const denomination = findDenomination(titleText);
+  let game = findGame(titleText) || findGame(urlText);
+
+  // A unit only one game uses ("UC", "VP") identifies the game on its own
+  if (!game && denomination) {
+    const candidates = GAMES.filter(g => g.units.includes(denomination.unit) && !CURRENCY_UNITS.has(denomination.unit));
+    if (candidates.length === 1) game = candidates[0];
+  }
+
+  const region = findRegion(titleText) || findRegion(urlText) || fallbackRegion;
+  const gameSlug = game ? game.slug : 'unknown';
+
+  if (!game || !denomination) {
+    return {
+      game: gameSlug,
+      denomination,
+      region,
+      titleKey: toSearchKey(title),
+      matchedBy: 'unmatched'
+    };
+  }
+
+  return {
+    game: gameSlug,
+    denomination,
+    region,
+    titleKey: toSearchKey(title),
+    canonicalKey: buildCanonicalKey(gameSlug, denomination.amount, denomination.unit, region),
+    displayName: buildDisplayName(gameSlug, denomination.amount, denomination.unit, region),
+    matchedBy: 'rule'
+  };
+};
@@ -1,21 +1,66 @@
 import fs from 'fs/promises';
 import { PuppeteerScraper } from './scrapers/puppeteer-scraper';
 import { FlareSolverrScraper } from './scrapers/flaresolverr-scraper';
-import { SITE_CONFIGS, FLARESOLVERR_REQUIRED_DOMAINS } from './scrapers/hybrid-scraper-factory';
+import { browserPool } from './scrapers/browser-pool';
+import { fingerprintProfiles } from './scrapers/fingerprint-profiles';
+import { flaresolverrSessions } from './scrapers/flaresolverr-sessions';
+import { classifyProxyFailure, proxyPool } from './scrapers/proxy-pool';
+import { HttpScraper } from './scrapers/http-scraper';
+import { siteConfigs } from './sites/site-config-store';
+import { siteConfigHistory } from './sites/site-config-history';
+import { strategySelector } from './scrapers/strategy-selector';
 import { N8NClient } from './utils/n8n-client';
-import { BatchResult, ScrapingResult, SiteConfig } from './types';
+import { priceRepository } from './storage/price-repository';
+import { productCatalog } from './catalog/product-catalog';
+import { BatchResult, ScrapingResult, ScrapingStrategy, SiteConfig } from './types';
 import { generateBatchId, extractDomain } from './utils/helpers';
+import { DomainScheduler } from './utils/domain-scheduler';
+import { FAILURE_KINDS, classifyFailure, countFailures } from './utils/failure-classifier';
+import { isBlocked, isPermanentFailure, isRetryable, runWithRetry } from './utils/retry-policy';
+import { parseDiscount, parsePrice } from './utils/price-parser';
+
+// Jobs between initialize() and close(); the browser pool and FlareSolverr sessions are shared by all
+// of them, so only the last job to finish tears them down
+let activeJobs = 0;
+
+const STRATEGY_ICONS: Record<ScrapingStrategy, string> = {
+  http: '📄',
+  puppeteer: '🎭',
+  flaresolverr: '🛡️'
+};
+
+export interface RateLimitConfig {
+  concurrency: number;
+  maxPerDomain: number;
+  requestDelay: number;
+  domainDelay: number;
+  failureCooldown: number;
+  maxExecutionTime: number;
+}
+
+export interface DomainStatus {
+  lastRequest: string | null;
+  nextAvailable: string;
+  inFlight: number;
+  queued: number;
+  completed: number;
+  failed: number;
+}
 
 export class HttpOrchestrator {
   private n8nClient: N8NClient;
   private concurrency: number = Number(process.env.SCRAPER_CONCURRENCY) || 2; // Optimized for 1 hour completion
-  private batchDelay: number = Number(process.env.SCRAPER_BATCH_DELAY) || 10000; // 10 seconds between batches
-  private requestDelay: number = Number(process.env.SCRAPER_REQUEST_DELAY) || 3000; // 3 seconds between requests
-  private domainLastRequest: Map<string, number> = new Map(); // Track last request per domain
-  private domainDelay: number = Number(process.env.SCRAPER_DOMAIN_DELAY) || 0; // No domain delay - use batch timing instead
+  // 10 seconds cool-down for a domain after a failure; SCRAPER_BATCH_DELAY is its old name
+  private failureCooldown: number = Number(process.env.SCRAPER_FAILURE_COOLDOWN || process.env.SCRAPER_BATCH_DELAY) || 10000;
+  private requestDelay: number = Number(process.env.SCRAPER_REQUEST_DELAY) || 3000; // 3 seconds between requests to the same domain
+  private domainDelay: number = Number(process.env.SCRAPER_DOMAIN_DELAY) || 0; // Min spacing between requests to one domain
+  private maxPerDomain: number = Number(process.env.SCRAPER_MAX_PER_DOMAIN) || 1; // Parallel requests against one domain
+  private scheduler: DomainScheduler | null = null;
+  private maxRetryDelay: number = Number(process.env.SCRAPER_MAX_RETRY_DELAY) || 30000; // Backoff cap between retries
   private maxExecutionTime: number = Number(process.env.MAX_EXECUTION_TIME) || 3600000; // 1 hour max execution
   private startTime: number = 0;
   private resumeUrl: string | null = null;
+  private active: boolean = false;
 
   constructor(n8nWebhookUrl: string) {
     this.n8nClient = new N8NClient(n8nWebhookUrl);
@@ -23,14 +68,21 @@ export class HttpOrchestrator {
 
   async initialize(): Promise<void> {
     this.startTime = Date.now();
+    if (!this.active) {
+      this.active = true;
+      activeJobs++;
+    }
     console.log('🎭 Initializing Puppeteer scraping orchestrator...');
     console.log(`⚙️ Optimized for 1-hour completion:`);
-    console.log(`   - Concurrency: ${this.concurrency} URLs simultaneously`);
-    console.log(`   - Batch delay: ${this.batchDelay / 1000}s`);
-    console.log(`   - Request delay: ${this.requestDelay / 1000}s`);
+    console.log(`   - Concurrency: ${this.concurrency} URLs simultaneously (${this.maxPerDomain} per domain)`);
+    console.log(`   - Failure cool-down: ${this.failureCooldown / 1000}s`);
+    console.log(`   - Request delay: ${this.requestDelay / 1000}s per domain`);
     console.log(`   - Max execution time: ${this.maxExecutionTime / 60000} minutes`);
-    console.log(`   - Domain delay: ${this.domainDelay === 0 ? 'DISABLED (time-optimized)' : this.domainDelay / 60000 + 'm'}`);
+    console.log(`   - Domain delay: ${this.domainDelay === 0 ? 'DISABLED (time-optimized)' : this.domainDelay / 1000 + 's'}`);
     
+    await strategySelector.load();
+    await siteConfigHistory.sync(siteConfigs.getAll());
+
     // Test N8N connection
     const n8nConnected = await this.n8nClient.testConnection();
     if (!n8nConnected) {
@@ -43,93 +95,167 @@ export class HttpOrchestrator {
   async scrapeUrls(urls: string[], progressCallback?: (processed: number, total: number) => void): Promise<BatchResult> {
     const batchId = generateBatchId();
     const timestamp = new Date();
-    const results: ScrapingResult[] = [];
-    
-    console.log(`\n🎯 Starting direct scraping with ${urls.length} URLs (no batching)`);
+    const domainCount = Object.keys(this.getDomainStats(urls)).length;
     
-    // Process URLs one by one for debugging
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      console.log(`\n🔍 [${i + 1}/${urls.length}] Processing: ${url}`);
-      
-      try {
-        const result = await this.scrapeUrlHttp(url, i + 1, urls.length);
-        results.push(result);
-        
-        if (progressCallback) {
-          progressCallback(i + 1, urls.length);
-        }
-        
-        // Small delay between requests for debugging
-        if (i < urls.length - 1) {
-          await this.sleep(1000); // 1 second delay
-        }
-        
-      } catch (error) {
-        console.error(`💥 Error processing ${url}:`, error);
-        results.push({
-          success: false,
-          url,
-          items: [],
-          error: error instanceof Error ? error.message : 'Unknown error',
-          responseTime: 0,
-          siteName: extractDomain(url)
-        });
+    console.log(`\n🎯 Scheduling ${urls.length} URLs across ${domainCount} domains`);
+    fingerprintProfiles.reset();
+    proxyPool.resetAssignments();
+
+    this.scheduler = new DomainScheduler({
+      concurrency: this.concurrency,
+      maxPerDomain: this.maxPerDomain,
+      requestDelay: this.requestDelay,
+      domainDelay: this.domainDelay,
+      failureDelay: this.failureCooldown,
+      deadline: (this.startTime || Date.now()) + this.maxExecutionTime
+    });
+
+    let started = 0;
+    const results = await this.scheduler.run(
+      urls,
+      url => this.scrapeUrlHttp(url, ++started, urls.length),
+      {
+        isFailure: result => !result.success,
+        fallback: (url, reason) => {
+          console.error(`💥 Error processing ${url}: ${reason}`);
+          return {
+            success: false,
+            url,
+            items: [],
+            error: reason,
+            failure: classifyFailure(reason),
+            attempts: 0,
+            responseTime: 0,
+            siteName: extractDomain(url)
+          };
+        },
+        onSettled: progressCallback
       }
-    }
+    );
     
-    return this.createBatchResult(urls, results, batchId, timestamp);
+    return await this.createBatchResult(urls, results, batchId, timestamp);
   }
 
   private async scrapeUrlHttp(url: string, index: number, total: number): Promise<ScrapingResult> {
     const domain = extractDomain(url);
     console.log(`🌐 [${index}/${total}] HTTP scraping ${domain}...`);
-  
-     try {
-      const config = SITE_CONFIGS[domain] || this.getGenericConfig(domain);
-  
-      // 🔀 Domain'e göre seçim
-      if (FLARESOLVERR_REQUIRED_DOMAINS.has(domain)) {
-        console.log(`🛡️ Using FLARESOLVERR scraper for ${domain}`);
-        const scraper = new FlareSolverrScraper(config);
-        const result = await scraper.scrapeUrl(url);
-        const status = result.success ? '✅' : '❌';
-        console.log(`   ${status} ${domain} - ${result.items.length} items (${Math.round(result.responseTime)}ms)`);
-        if (!result.success && result.error) console.log(`      Error: ${result.error}`);
-        return result;
-      } else {
-        console.log(`🎭 Using PUPPETEER scraper for ${domain}`);
-        const scraper = new PuppeteerScraper(config);
-        const result = await scraper.scrapeUrl(url);
-        await scraper.close();
-        const status = result.success ? '✅' : '❌';
-        console.log(`   ${status} ${domain} - ${result.items.length} items (${Math.round(result.responseTime)}ms)`);
-        if (!result.success && result.error) console.log(`      Error: ${result.error}`);
-        return result;
-      }
+
+    const siteConfig = siteConfigs.get(domain);
+    const config = siteConfig || this.getGenericConfig(domain);
+    const configVersion = siteConfig ? siteConfigHistory.getCurrentVersion(domain) : undefined;
+    const plan = strategySelector.plan(domain, config);
+    const policy = {
+      maxRetries: config.maxRetries ?? 2,
+      baseDelay: config.delay || 1000,
+      maxDelay: this.maxRetryDelay
+    };
+
+    let result: ScrapingResult;
+    let attempts = 0;
+
+    for (const [position, strategy] of plan.entries()) {
+      const hasFallback = position < plan.length - 1;
+      console.log(`${STRATEGY_ICONS[strategy]} Using ${strategy.toUpperCase()} strategy for ${domain}`);
+
+      result = await runWithRetry(
+        () => this.scrapeOnce(url, config, strategy),
+        policy,
+        (failed, attempt, delay) => {
+          console.log(`   🔁 ${domain} - attempt ${attempt} failed (${failed.error}), retrying in ${Math.round(delay / 100) / 10}s`);
+        },
+        // With a heavier strategy left, a block is escalated instead of retried
+        hasFallback ? (failed => isRetryable(failed) && !isBlocked(failed)) : isRetryable
+      );
+
+      attempts += result.attempts;
+      strategySelector.record(domain, strategy, result.success);
+
+      if (result.success || isPermanentFailure(result)) break;
+      if (hasFallback) console.log(`   ↪️ ${domain} - ${strategy} failed (${result.error}), falling back`);
+    }
+
+    result = { ...result, attempts, configVersion };
+
+    const status = result.success ? '✅' : '❌';
+    const attemptInfo = result.attempts > 1 ? `, ${result.attempts} attempts` : '';
+    console.log(`   ${status} ${domain} - ${result.items.length} items via ${result.strategy} (${Math.round(result.responseTime)}ms${attemptInfo})`);
+    if (!result.success && result.error) {
+      console.log(`      Error [${result.failure}]${configVersion ? ` with config v${configVersion}` : ''}: ${result.error}`);
+    }
+    return result;
+  }
+
+  // One attempt with a draft config through the same path as a batch, keeping the page HTML for inspection.
+  // The trial holds the shared browsers and sessions like a job, so they are handed back when it ends,
+  // and a draft that gets blocked says nothing about the proxy - its health is left alone.
+  async testScrape(url: string, config: SiteConfig, strategy: ScrapingStrategy): Promise<ScrapingResult> {
+    if (!this.active) {
+      this.active = true;
+      activeJobs++;
+    }
+    try {
+      return await this.scrapeOnce(url, config, strategy, true);
+    } finally {
+      await this.close();
+    }
+  }
+
+  private async scrapeOnce(url: string, config: SiteConfig, strategy: ScrapingStrategy, trial: boolean = false): Promise<ScrapingResult> {
+    const domain = extractDomain(url);
+    const proxy = proxyPool.assign(domain);
+    let result: ScrapingResult;
+
+    try {
+      result = await this.createScraper(strategy, config).scrapeUrl(url, proxy, trial);
     } catch (error) {
       console.error(`   💥 ${domain} - Exception: ${error}`);
-      return {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result = {
         success: false,
         url,
         items: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: message,
+        failure: classifyFailure(message),
         responseTime: 0,
         siteName: domain
       };
     }
+    result = { ...result, strategy };
+    if (!result.success && !result.failure) {
+      result.failure = classifyFailure(result.error, { statusCode: result.statusCode });
+    }
+
+    if (!proxy) return result;
+    if (trial) return { ...result, proxy: proxy.id };
+
+    const failure = classifyProxyFailure(result);
+    if (failure) {
+      proxyPool.reportFailure(proxy, failure, result.error);
+    } else if (result.success) {
+      proxyPool.reportSuccess(proxy);
+    }
+    return { ...result, proxy: proxy.id };
   }
 
+  private createScraper(strategy: ScrapingStrategy, config: SiteConfig): HttpScraper | PuppeteerScraper | FlareSolverrScraper {
+    switch (strategy) {
+      case 'http':
+        return new HttpScraper(config);
+      case 'flaresolverr':
+        return new FlareSolverrScraper(config);
+      default:
+        return new PuppeteerScraper(config);
+    }
+  }
+
+  // Domains without a site config: the extraction engine finds product cards by page structure
   private getGenericConfig(domain: string): SiteConfig {
+    console.log(`🔎 No site config for ${domain}, using heuristic extraction (low confidence)`);
     return {
       name: domain,
       domain,
-      selectors: {
-        container: '.product, .item, .card, .product-item, div, article, section, tr',
-        title: '.title, .name, .product-title, .product-name, h1, h2, h3, h4, h5, [class*="product"], [class*="title"], [class*="name"]',
-        price: '.price, .cost, .amount, .product-price, [class*="price"], [class*="fiyat"], [class*="cost"], span, div, td',
-        originalPrice: '.old-price, .original-price, .was-price'
-      },
+      selectors: { container: '', title: '', price: '' },
+      generic: true,
       waitFor: undefined,
       delay: 1000,
       maxRetries: 3,
@@ -137,7 +263,7 @@ export class HttpOrchestrator {
     };
   }
 
-  private createBatchResult(urls: string[], results: ScrapingResult[], batchId: string, timestamp: Date): BatchResult {
+  private async createBatchResult(urls: string[], results: ScrapingResult[], batchId: string, timestamp: Date): Promise<BatchResult> {
     const successCount = results.filter(r => r.success).length;
     const failedCount = results.length - successCount;
     const totalItems = results.reduce((sum, r) => sum + r.items.length, 0);
@@ -151,11 +277,30 @@ export class HttpOrchestrator {
       failedCount,
       results,
       totalItems,
-      errors
+      errors,
+      failures: countFailures(results)
     };
 
     // Print summary
     this.printBatchSummary(batchResult);
+    await strategySelector.save();
+
+    // Persist before notifying N8N so the dashboard reflects this batch immediately
+    if (batchResult.totalItems > 0) {
+      try {
+        const matched = await productCatalog.annotateBatch(batchResult);
+        console.log(`🗂️ Matched ${matched}/${batchResult.totalItems} items to canonical products`);
+      } catch (error) {
+        console.error('❌ Failed to match items against the product catalog:', error instanceof Error ? error.message : error);
+      }
+
+      try {
+        const stored = await priceRepository.storeBatch(batchResult);
+        console.log(`🗄️ Stored ${stored} price observations for batch ${batchResult.batchId}`);
+      } catch (error) {
+        console.error('❌ Failed to store batch in PostgreSQL:', error instanceof Error ? error.message : error);
+      }
+    }
 
     // Send to N8N with HTTP request to resume URL
     if (batchResult.totalItems > 0) {
@@ -188,6 +333,13 @@ export class HttpOrchestrator {
     console.log(`❌ Failed: ${batchResult.failedCount} (${Math.round(batchResult.failedCount/batchResult.totalUrls*100)}%)`);
     console.log(`📦 Total Items: ${batchResult.totalItems}`);
     
+    const retried = batchResult.results.filter(r => (r.attempts || 1) > 1);
+    if (retried.length > 0) {
+      const recovered = retried.filter(r => r.success).length;
+      const extraAttempts = retried.reduce((sum, r) => sum + r.attempts - 1, 0);
+      console.log(`🔁 Retried: ${retried.length} URLs (${extraAttempts} extra attempts, ${recovered} recovered)`);
+    }
+
     if (batchResult.totalItems > 0) {
       const avgItemsPerUrl = Math.round(batchResult.totalItems / batchResult.successCount * 10) / 10;
       console.log(`📈 Avg Items/URL: ${avgItemsPerUrl}`);
@@ -216,6 +368,20 @@ export class HttpOrchestrator {
         console.log(`   ${icon} ${domain}: ${stats.items} items, ${successRate}% success (${stats.success}/${stats.total})`);
       });
 
+    if (batchResult.failedCount > 0) {
+      console.log('\n🧯 Failures by Kind:');
+      FAILURE_KINDS
+        .filter(kind => batchResult.failures[kind])
+        .sort((a, b) => batchResult.failures[b] - batchResult.failures[a])
+        .forEach(kind => {
+          const domains = Array.from(new Set(
+            batchResult.results.filter(r => !r.success && r.failure === kind).map(r => r.siteName)
+          ));
+          const shown = domains.slice(0, 5).join(', ') + (domains.length > 5 ? `, +${domains.length - 5} more` : '');
+          console.log(`   ${kind}: ${batchResult.failures[kind]} (${shown})`);
+        });
+    }
+
     if (batchResult.errors.length > 0) {
       console.log('\n❌ Common Errors:');
       const errorCounts: { [error: string]: number } = {};
@@ -253,15 +419,6 @@ export class HttpOrchestrator {
     }
   }
 
-  private async waitForDomainRateLimit(domain: string): Promise<void> {
-    // Minimal delay for debugging - just 500ms
-    await this.sleep(500);
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   private async sendResumeRequest(batchResult: BatchResult): Promise<void> {
     // Use provided resumeUrl or fallback to environment/default
     const resumeUrl = this.resumeUrl || process.env.N8N_RESUME_URL || 'https://6879f79299af.ngrok-free.app/webhook-waiting/174';
@@ -278,11 +435,19 @@ export class HttpOrchestrator {
       batchResult.results.forEach(result => {
         if (result.success && result.items.length > 0) {
           result.items.forEach(item => {
-            const { price, currency } = this.parsePrice(item.price);
+            const { ok, price, currency } = parsePrice(item.price);
             
-            if (price > 0) {
+            if (ok) {
+              const { originalPrice, discountPercent } = parseDiscount(item.price, item.originalPrice);
               prices.push({
+                game_id: item.gameId,
+                site_id: item.siteId,
+                canonical_product_id: item.canonicalProductId,
+                canonical_key: item.canonicalKey,
                 price,
+                original_price: originalPrice,
+                discount_percent: discountPercent,
+                in_stock: item.inStock,
                 currency,
                 region: item.region,
                 product_name: item.title,
@@ -316,6 +481,21 @@ export class HttpOrchestrator {
   }
 
   async close(): Promise<void> {
+    if (this.active) {
+      this.active = false;
+      activeJobs--;
+    }
+
+    const stats = browserPool.getStats();
+    console.log(`🎭 Browser pool: ${stats.launched} launched, ${stats.recycled} recycled`);
+    if (activeJobs > 0) {
+      console.log(`🔒 HTTP orchestrator closed, browsers and sessions kept for ${activeJobs} running job(s)`);
+      return;
+    }
+
+    await browserPool.close();
+    // FlareSolverr keeps a browser per session; nothing should outlive the last job
+    await flaresolverrSessions.close();
     console.log('🔒 HTTP orchestrator closed');
   }
 
@@ -335,13 +515,13 @@ export class HttpOrchestrator {
     console.log(`⚙️ Concurrency set to ${this.concurrency}`);
   }
 
-  setBatchDelay(delay: number): void {
-    this.batchDelay = Math.max(500, delay);
-    console.log(`⚙️ Batch delay set to ${this.batchDelay}ms`);
+  setFailureCooldown(delay: number): void {
+    this.failureCooldown = Math.max(500, delay);
+    console.log(`⚙️ Failure cool-down set to ${this.failureCooldown}ms`);
   }
 
   setDomainDelay(delayMinutes: number): void {
-    this.domainDelay = Math.max(1, delayMinutes) * 60000; // Convert to milliseconds
+    this.domainDelay = Math.max(0, delayMinutes) * 60000; // Convert to milliseconds
     console.log(`⚙️ Domain delay set to ${delayMinutes} minutes`);
   }
 
@@ -350,15 +530,35 @@ export class HttpOrchestrator {
     console.log(`⚙️ Request delay set to ${delaySeconds} seconds`);
   }
 
-  getDomainStatus(): { [domain: string]: { lastRequest: string | null, nextAvailable: string } } {
-    const status: { [domain: string]: { lastRequest: string | null, nextAvailable: string } } = {};
+  setMaxPerDomain(maxPerDomain: number): void {
+    this.maxPerDomain = Math.max(1, Math.min(this.concurrency, maxPerDomain));
+    console.log(`⚙️ Max in-flight requests per domain set to ${this.maxPerDomain}`);
+  }
+
+  getRateLimitConfig(): RateLimitConfig {
+    return {
+      concurrency: this.concurrency,
+      maxPerDomain: this.maxPerDomain,
+      requestDelay: this.requestDelay,
+      domainDelay: this.domainDelay,
+      failureCooldown: this.failureCooldown,
+      maxExecutionTime: this.maxExecutionTime
+    };
+  }
+
+  getDomainStatus(): { [domain: string]: DomainStatus } {
+    const status: { [domain: string]: DomainStatus } = {};
+    if (!this.scheduler) return status;
+
     const now = Date.now();
-    
-    for (const [domain, lastRequest] of this.domainLastRequest.entries()) {
-      const nextAvailable = new Date(lastRequest + this.domainDelay);
+    for (const [domain, schedule] of Object.entries(this.scheduler.getStatus())) {
       status[domain] = {
-        lastRequest: new Date(lastRequest).toLocaleString(),
-        nextAvailable: nextAvailable > new Date(now) ? nextAvailable.toLocaleString() : 'Available now'
+        lastRequest: schedule.lastRequest ? new Date(schedule.lastRequest).toLocaleString() : null,
+        nextAvailable: schedule.nextAvailable > now ? new Date(schedule.nextAvailable).toLocaleString() : 'Available now',
+        inFlight: schedule.inFlight,
+        queued: schedule.queued,
+        completed: schedule.completed,
+        failed: schedule.failed
       };
     }
     
@@ -369,34 +569,4 @@ export class HttpOrchestrator {
     this.resumeUrl = url;
     console.log(`🔗 Resume URL set to: ${url}`);
   }
-
-  private parsePrice(priceText: string): { price: number; currency: string } {
-    if (!priceText) return { price: 0, currency: 'TRY' };
-
-    // Remove whitespace and normalize
-    const cleaned = priceText.replace(/\s+/g, ' ').trim();
-    
-    // Common currency patterns
-    const patterns = [
-      { regex: /(\d+(?:[.,]\d+)?)\s*₺/g, currency: 'TRY' },
-      { regex: /₺\s*(\d+(?:[.,]\d+)?)/g, currency: 'TRY' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*TL/gi, currency: 'TRY' },
-      { regex: /TL\s*(\d+(?:[.,]\d+)?)/gi, currency: 'TRY' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*\$/g, currency: 'USD' },
-      { regex: /\$\s*(\d+(?:[.,]\d+)?)/g, currency: 'USD' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*€/g, currency: 'EUR' },
-      { regex: /€\s*(\d+(?:[.,]\d+)?)/g, currency: 'EUR' },
-      { regex: /(\d+(?:[.,]\d+)?)/g, currency: 'TRY' } // Default fallback
-    ];
-
-    for (const pattern of patterns) {
-      const match = pattern.regex.exec(cleaned);
-      if (match && match[1]) {
-        const price = parseFloat(match[1].replace(',', '.'));
-        return { price, currency: pattern.currency };
-      }
-    }
-
-    return { price: 0, currency: 'TRY' };
-  }
 }
\ No newline at end of file
@@ -1,5 +1,25 @@
 import express from 'express';
 import { HttpOrchestrator } from './http-orchestrator';
+import { browserPool } from './scrapers/browser-pool';
+import { flaresolverrSessions } from './scrapers/flaresolverr-sessions';
+import { explainExtraction } from './scrapers/html-extractor';
+import { proxyPool } from './scrapers/proxy-pool';
+import { STRATEGY_CHAIN, strategySelector } from './scrapers/strategy-selector';
+import { runMigrations } from './storage/migrations';
+import { priceRepository, toObservation } from './storage/price-repository';
+import { catalogRepository } from './storage/catalog-repository';
+import { CatalogValidationError, productCatalog } from './catalog/product-catalog';
+import { normalizeProductTitle } from './catalog/product-normalizer';
+import { buildPriceComparisons } from './catalog/price-comparison';
+import { siteConfigs } from './sites/site-config-store';
+import { siteConfigHistory } from './sites/site-config-history';
+import { suggestSiteConfig } from './sites/selector-wizard';
+import { SiteConfigValidationError, validateSiteConfig } from './sites/site-config-schema';
+import { FailureKind, HistoryInterval, N8NPriceItem, PriceObservationInput, ScrapingStrategy, SiteConfig, StoredPrice } from './types';
+import { parsePrice } from './utils/price-parser';
+import { matchesSearch } from './utils/text-normalizer';
+import { FAILURE_KINDS, failureOf } from './utils/failure-classifier';
+import { extractDomain } from './utils/helpers';
 import path from 'path';
 
 // Global scraping status and results
@@ -16,7 +36,17 @@ let scrapingStatus = {
 };
 
 let lastBatchResult: any = null;
-let failedUrls: Array<{url: string, error: string, timestamp: string}> = [];
+let failedUrls: Array<{url: string, error: string, failure: FailureKind, attempts?: number, proxy?: string, configVersion?: number, timestamp: string}> = [];
+
+// Rate limits set through /config/rate-limit apply to every orchestrator created afterwards
+let rateLimitSettings: {
+  concurrency?: number;
+  maxPerDomain?: number;
+  domainDelayMinutes?: number;
+  requestDelaySeconds?: number;
+  failureCooldownSeconds?: number;
+} = {};
+let activeOrchestrator: HttpOrchestrator | null = null;
 
 const app = express();
 const port = Number(process.env.PORT) || 4000;
@@ -40,12 +70,31 @@ app.use((req, res, next) => {
   }
 });
 
+const applyRateLimits = (orchestrator: HttpOrchestrator): HttpOrchestrator => {
+  const { concurrency, maxPerDomain, domainDelayMinutes, requestDelaySeconds, failureCooldownSeconds } = rateLimitSettings;
+
+  if (concurrency !== undefined) orchestrator.setConcurrency(concurrency);
+  if (maxPerDomain !== undefined) orchestrator.setMaxPerDomain(maxPerDomain);
+  if (domainDelayMinutes !== undefined) orchestrator.setDomainDelay(domainDelayMinutes);
+  if (requestDelaySeconds !== undefined) orchestrator.setRequestDelay(requestDelaySeconds);
+  if (failureCooldownSeconds !== undefined) orchestrator.setFailureCooldown(failureCooldownSeconds * 1000);
+
+  return orchestrator;
+};
+
+const createOrchestrator = (): HttpOrchestrator => {
+  activeOrchestrator = applyRateLimits(new HttpOrchestrator(n8nWebhookUrl));
+  return activeOrchestrator;
+};
+
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ 
     status: 'OK', 
     timestamp: new Date().toISOString(),
-    service: 'Game Price Scraper'
+    service: 'Game Price Scraper',
+    browserPool: browserPool.getStats(),
+    flaresolverrSessions: flaresolverrSessions.getStatus()
   });
 });
 
@@ -79,7 +128,7 @@ app.post('/scrape/sync', async (req, res) => {
     console.log(`📝 Processing ${validUrls.length} URLs synchronously...`);
 
     // Initialize orchestrator
-    const orchestrator = new HttpOrchestrator(n8nWebhookUrl);
+    const orchestrator = createOrchestrator();
     await orchestrator.initialize();
     
     // Run synchronous scraping
@@ -93,18 +142,19 @@ app.post('/scrape/sync', async (req, res) => {
       .flatMap(r => r.items.map(item => ({
         title: item.title,
         price: item.price,
+        originalPrice: item.originalPrice,
+        discountPercent: item.discountPercent,
+        inStock: item.inStock,
         currency: item.currency,
         region: item.region,
         url: item.url,
         siteName: item.siteName,
-        gameSlug: item.gameSlug
+        gameSlug: item.gameSlug,
+        canonicalKey: item.canonicalKey
       })));
 
     console.log(`✅ Scraping completed: ${scrapedItems.length} items from ${result.successCount}/${result.totalUrls} URLs`);
 
-    // Update dashboard items
-    dashboardItems = scrapedItems;
-
     // Return scraped data immediately
     return res.json({
       success: true,
@@ -116,7 +166,8 @@ app.post('/scrape/sync', async (req, res) => {
           totalUrls: result.totalUrls,
           successCount: result.successCount,
           failedCount: result.failedCount,
-          totalItems: scrapedItems.length
+          totalItems: scrapedItems.length,
+          failures: result.failures
         },
         items: scrapedItems,
         errors: result.errors
@@ -183,7 +234,7 @@ app.post('/scrape/start', async (req, res) => {
     // Run scraping in background
     setImmediate(async () => {
       try {
-        const orchestrator = new HttpOrchestrator(n8nWebhookUrl);
+        const orchestrator = createOrchestrator();
         
         // Set resume URL if provided in request
         if (req.body.resumeUrl) {
@@ -241,6 +292,10 @@ app.post('/scrape/start', async (req, res) => {
           .map(r => ({
             url: r.url,
             error: r.error || 'Unknown error',
+            failure: failureOf(r) || 'unknown',
+            attempts: r.attempts,
+            proxy: r.proxy,
+            configVersion: r.configVersion,
             timestamp: new Date().toISOString()
           }));
         
@@ -264,6 +319,7 @@ app.post('/scrape/start', async (req, res) => {
         failedUrls.push({
           url: 'SYSTEM_ERROR',
           error: error instanceof Error ? error.message : 'Unknown system error',
+          failure: 'unknown',
           timestamp: new Date().toISOString()
         });
       }
@@ -299,10 +355,23 @@ app.get('/scrape/status', (req, res) => {
 
 // Get failed URLs
 app.get('/scrape/failed-urls', (req, res) => {
-  res.json({
+  const failure = req.query.failure as string | undefined;
+  if (failure && !FAILURE_KINDS.includes(failure as FailureKind)) {
+    return res.status(400).json({
+      success: false,
+      error: `failure must be one of: ${FAILURE_KINDS.join(', ')}`
+    });
+  }
+
+  const byKind: Partial<Record<FailureKind, number>> = {};
+  failedUrls.forEach(entry => byKind[entry.failure] = (byKind[entry.failure] || 0) + 1);
+  const filtered = failure ? failedUrls.filter(entry => entry.failure === failure) : failedUrls;
+
+  return res.json({
     success: true,
-    failedUrls,
-    count: failedUrls.length,
+    failedUrls: filtered,
+    count: filtered.length,
+    byKind,
     timestamp: new Date().toISOString()
   });
 });
@@ -346,48 +415,36 @@ app.get('/test/n8n', async (req, res) => {
 // Store prices from N8N
 app.post('/api/prices/store', async (req, res) => {
   try {
-    const items = Array.isArray(req.body) ? req.body : [req.body];
+    const items: N8NPriceItem[] = Array.isArray(req.body) ? req.body : [req.body];
     
     console.log(`📥 Received ${items.length} price items from N8N`);
     
-    // Validate items
-    const validItems = items.filter(item => 
-      item.domain && item.product_name && item.price && item.currency
-    );
+    // Validate items; prices that don't parse to a usable amount are rejected
+    const observations = items
+      .filter(item => item.domain && item.product_name && item.price && item.currency)
+      .map(toObservation)
+      .filter((observation): observation is PriceObservationInput => observation !== null);
+    const rejected = items.length - observations.length;
     
-    if (validItems.length === 0) {
+    if (observations.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'No valid price items provided'
+        error: 'No valid price items provided',
+        rejected
       });
     }
     
-    console.log(`✅ Validated ${validItems.length} items, storing...`);
-    
-    // Store to memory for dashboard
-    validItems.forEach((item, index) => {
-      console.log(`${index + 1}. ${item.domain} - ${item.product_name}: ${item.price} ${item.currency}`);
-      
-      // Add to stored prices
-      storedPrices.push({
-        title: item.product_name,
-        price: `${item.price} ${item.currency}`,
-        currency: item.currency,
-        region: item.region || 'TR',
-        url: item.url,
-        siteName: item.domain,
-        gameSlug: 'unknown',
-        scraped_at: item.batch_timestamp || new Date().toISOString()
-      });
-    });
+    console.log(`✅ Validated ${observations.length} items (${rejected} rejected), storing...`);
     
-    // Also update dashboard items
-    dashboardItems = [...storedPrices];
+    // Rows of a batch the backend already stored (same product and batch_timestamp) are skipped
+    const stored = await priceRepository.storePrices(observations);
     
     return res.json({
       success: true,
       message: 'Price items stored successfully',
-      stored: validItems.length,
+      stored,
+      duplicates: observations.length - stored,
+      rejected,
       timestamp: new Date().toISOString()
     });
     
@@ -403,22 +460,20 @@ app.post('/api/prices/store', async (req, res) => {
 // Get latest prices
 app.get('/api/prices/latest', async (req, res) => {
   try {
-    // This would need actual PostgreSQL connection
-    // For now, return mock data
+    const { domain, search, discounted, inStock, limit } = req.query;
+    
+    const prices = await priceRepository.getLatestPrices({
+      domain: domain ? domain.toString() : undefined,
+      search: search ? search.toString() : undefined,
+      discountedOnly: discounted === 'true',
+      inStockOnly: inStock === 'true',
+      limit: limit ? Number(limit) : undefined
+    });
+    
     res.json({
       success: true,
-      data: [
-        {
-          id: 1,
-          product_name: "PUBG Mobile 300 UC",
-          price: 29.99,
-          currency: "TRY",
-          region: "TR",
-          url: "https://example.com",
-          scraped_at: new Date().toISOString()
-        }
-      ],
-      total: 1
+      data: prices,
+      total: prices.length
     });
   } catch (error) {
     res.status(500).json({
@@ -428,15 +483,126 @@ app.get('/api/prices/latest', async (req, res) => {
   }
 });
 
-// Get supported domains
-app.get('/domains', async (req, res) => {
+// Price history time series per product and/or site
+const HISTORY_INTERVALS: HistoryInterval[] = ['raw', 'hour', 'day'];
+
+const isValidTimeZone = (timeZone: string): boolean => {
   try {
-    const { SITE_CONFIGS } = await import('./scrapers/hybrid-scraper-factory');
-    const domains = Object.keys(SITE_CONFIGS);
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const sendPriceHistory = async (req: express.Request, res: express.Response, productId?: number) => {
+  try {
+    const { product, site, from, to, interval, tz } = req.query;
+    
+    const resolution = (interval ? interval.toString() : 'raw') as HistoryInterval;
+    if (!HISTORY_INTERVALS.includes(resolution)) {
+      return res.status(400).json({
+        success: false,
+        error: `interval must be one of: ${HISTORY_INTERVALS.join(', ')}`
+      });
+    }
+    
+    const fromDate = from ? new Date(from.toString()) : undefined;
+    const toDate = to ? new Date(to.toString()) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid ISO dates'
+      });
+    }
+    
+    if (!productId && !product && !site) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one of product or site is required'
+      });
+    }
+    
+    // Postgres rejects unknown zones with a query error; IANA names are valid in both
+    const timezone = tz ? tz.toString() : undefined;
+    if (timezone && !isValidTimeZone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        error: `tz must be an IANA time zone such as Europe/Istanbul, got: ${timezone}`
+      });
+    }
+    
+    const { series, truncated } = await priceRepository.getPriceHistory({
+      productId,
+      product: product ? product.toString() : undefined,
+      domain: site ? site.toString() : undefined,
+      from: fromDate,
+      to: toDate,
+      interval: resolution,
+      timezone
+    });
+    
+    return res.json({
+      success: true,
+      interval: resolution,
+      series,
+      total: series.length,
+      truncated,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+app.get('/api/prices/history', (req, res) => sendPriceHistory(req, res));
+
+app.get('/api/prices/history/:productId', (req, res) => {
+  const productId = Number(req.params.productId);
+  if (!Number.isInteger(productId) || productId <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'productId must be a positive integer'
+    });
+  }
+  return sendPriceHistory(req, res, productId);
+});
+
+// Cheapest-site comparison per canonical product
+app.get('/api/prices/compare', async (req, res) => {
+  try {
+    const { game, search, maxAgeHours, minSites, sortBy } = req.query;
+    
+    const rows = await priceRepository.getLatestCanonicalOffers({
+      game: game ? game.toString() : undefined,
+      maxAgeHours: maxAgeHours ? Number(maxAgeHours) : undefined
+    });
+    let comparisons = buildPriceComparisons(rows);
+    
+    if (search) {
+      comparisons = comparisons.filter(comparison =>
+        matchesSearch(comparison.displayName, search.toString()) ||
+        matchesSearch(comparison.canonicalKey, search.toString())
+      );
+    }
+    
+    if (minSites) {
+      comparisons = comparisons.filter(comparison => comparison.inStockSites >= Number(minSites));
+    }
+    
+    if (sortBy === 'spread') {
+      comparisons.sort((a, b) => (b.spreadPercent || 0) - (a.spreadPercent || 0));
+    } else if (sortBy === 'unitPrice') {
+      comparisons.sort((a, b) => (a.cheapest?.unitPrice ?? Infinity) - (b.cheapest?.unitPrice ?? Infinity));
+    }
     
     res.json({
-      domains,
-      count: domains.length,
+      success: true,
+      comparisons,
+      total: comparisons.length,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -447,22 +613,101 @@ app.get('/domains', async (req, res) => {
   }
 });
 
-// Rate limiting configuration endpoints
-app.post('/config/rate-limit', (req, res) => {
+app.get('/api/prices/compare/:idOrKey', async (req, res) => {
   try {
-    const { domainDelayMinutes, requestDelaySeconds, batchDelaySeconds } = req.body;
+    const { idOrKey } = req.params;
+    const { maxAgeHours } = req.query;
     
-    // These would need to be applied to the orchestrator instance when it's created
-    const config = {
-      domainDelay: domainDelayMinutes || 30, // 30 minutes default
-      requestDelay: requestDelaySeconds || 5, // 5 seconds default  
-      batchDelay: batchDelaySeconds || 30 // 30 seconds default
-    };
+    const rows = await priceRepository.getLatestCanonicalOffers({
+      canonicalProductId: /^\d+$/.test(idOrKey) ? Number(idOrKey) : undefined,
+      canonicalKey: /^\d+$/.test(idOrKey) ? undefined : idOrKey,
+      maxAgeHours: maxAgeHours ? Number(maxAgeHours) : undefined
+    });
+    const comparisons = buildPriceComparisons(rows);
+    
+    if (comparisons.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `No recent prices for canonical product ${idOrKey}`
+      });
+    }
+    
+    return res.json({
+      success: true,
+      comparisons,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Product catalog: canonical products and manual title mappings
+app.get('/api/catalog/products', async (req, res) => {
+  try {
+    const { game } = req.query;
+    const products = await catalogRepository.getCanonicalProducts(game ? game.toString() : undefined);
     
     res.json({
       success: true,
-      message: 'Rate limit configuration updated',
-      config,
+      products,
+      total: products.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/catalog/products/:idOrKey', async (req, res) => {
+  try {
+    const { idOrKey } = req.params;
+    const product = await catalogRepository.getCanonicalProduct(/^\d+$/.test(idOrKey) ? Number(idOrKey) : idOrKey);
+    
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: `Canonical product ${idOrKey} not found`
+      });
+    }
+    
+    const linkedProducts = await catalogRepository.getLinkedProducts(product.id);
+    return res.json({
+      success: true,
+      product,
+      linkedProducts,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/catalog/unmatched', async (req, res) => {
+  try {
+    const { domain, limit } = req.query;
+    const products = await catalogRepository.getProducts({
+      domain: domain ? domain.toString() : undefined,
+      unmatchedOnly: true,
+      limit: limit ? Number(limit) : 500
+    });
+    
+    res.json({
+      success: true,
+      products: products.map(product => ({
+        ...product,
+        normalized: normalizeProductTitle(product.product_name, product.url, product.region)
+      })),
+      total: products.length,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -473,43 +718,581 @@ app.post('/config/rate-limit', (req, res) => {
   }
 });
 
+app.post('/api/catalog/normalize', async (req, res) => {
+  try {
+    const { title, url, domain, region } = req.body;
+    
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'title is required'
+      });
+    }
+    
+    const normalized = await productCatalog.match(title, url || '', domain || '', region || 'TR');
+    return res.json({
+      success: true,
+      normalized,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/catalog/relink', async (req, res) => {
+  try {
+    const relinked = await productCatalog.relink(req.body.domain || undefined);
+    
+    res.json({
+      success: true,
+      relinked,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/catalog/overrides', async (req, res) => {
+  try {
+    const overrides = await catalogRepository.getOverrides();
+    
+    res.json({
+      success: true,
+      overrides,
+      total: overrides.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/catalog/overrides', async (req, res) => {
+  const { title, domain, canonicalKey, game, amount, unit, region } = req.body;
+  
+  if (!title || typeof title !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'title is required'
+    });
+  }
+  
+  try {
+    const result = await productCatalog.createOverride({ title, domain, canonicalKey, game, amount, unit, region });
+    
+    return res.json({
+      success: true,
+      message: 'Catalog override saved',
+      ...result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(error instanceof CatalogValidationError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.delete('/api/catalog/overrides/:id', async (req, res) => {
+  try {
+    const deleted = await productCatalog.deleteOverride(Number(req.params.id));
+    
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: `Override ${req.params.id} not found`
+      });
+    }
+    
+    return res.json({
+      success: true,
+      message: 'Catalog override deleted',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get supported domains
+app.get('/domains', (req, res) => {
+  const domains = siteConfigs.getDomains();
+
+  res.json({
+    domains,
+    count: domains.length,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Site configs with their selectors, plus files that failed validation
+app.get('/sites', (req, res) => {
+  const sites = siteConfigs.getAll();
+
+  res.json({
+    success: true,
+    sites,
+    count: Object.keys(sites).length,
+    versions: siteConfigHistory.getCurrentVersions(),
+    invalid: siteConfigs.getErrors(),
+    directory: siteConfigs.getDirectory(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+app.get('/sites/:domain', (req, res) => {
+  const config = siteConfigs.get(req.params.domain);
+
+  if (!config) {
+    return res.status(404).json({
+      success: false,
+      error: `No site config for ${req.params.domain}`
+    });
+  }
+
+  return res.json({
+    success: true,
+    config,
+    version: siteConfigHistory.getCurrentVersion(req.params.domain) ?? null,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Tries a draft config on a live URL (through the chosen strategy) or on pasted HTML, without saving it.
+// Registered before /sites/:domain so "test" isn't taken for a domain.
+app.post('/sites/test', async (req, res) => {
+  const { url, html, strategy: requestedStrategy } = req.body;
+  const samples = Math.min(Math.max(Number(req.body.samples ?? 3) || 0, 0), 20);
+
+  if (!html && !(typeof url === 'string' && /^https?:\/\//.test(url))) {
+    return res.status(400).json({
+      success: false,
+      error: 'url (http/https) or html is required'
+    });
+  }
+  if (html !== undefined && typeof html !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'html must be a string'
+    });
+  }
+
+  // Without a draft, the stored config of the URL's domain is tested
+  const config: SiteConfig = req.body.config ?? (url ? siteConfigs.get(extractDomain(url)) : undefined);
+  if (!config) {
+    return res.status(400).json({
+      success: false,
+      error: 'config is required when the domain has no stored site config'
+    });
+  }
+
+  const errors = validateSiteConfig(config);
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid site config',
+      errors
+    });
+  }
+
+  const pageUrl = url || `https://${config.domain}/`;
+
+  if (html) {
+    const { items, debug } = explainExtraction(html, pageUrl, config, samples);
+    return res.json({
+      success: items.length > 0,
+      url: pageUrl,
+      strategy: null,
+      items,
+      count: items.length,
+      debug,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const strategy: ScrapingStrategy = requestedStrategy || config.strategy || (config.requiresJS ? 'puppeteer' : 'http');
+  if (!STRATEGY_CHAIN.includes(strategy)) {
+    return res.status(400).json({
+      success: false,
+      error: `strategy must be one of ${STRATEGY_CHAIN.join(', ')}`
+    });
+  }
+
+  try {
+    const result = await new HttpOrchestrator(n8nWebhookUrl).testScrape(url, config, strategy);
+
+    return res.json({
+      success: result.success,
+      url,
+      strategy,
+      items: result.items,
+      count: result.items.length,
+      error: result.error,
+      failure: result.failure,
+      statusCode: result.statusCode,
+      responseTime: result.responseTime,
+      // First page only; items above include any further pages
+      debug: result.html ? explainExtraction(result.html, url, config, samples).debug : null,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Proposes a draft config for an unconfigured site from one of its listing pages (fetched, or pasted as html)
+app.post('/sites/suggest', async (req, res) => {
+  const { url, html } = req.body;
+  const strategy: ScrapingStrategy = req.body.strategy || 'http';
+
+  if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+    return res.status(400).json({
+      success: false,
+      error: 'url (http/https) of a listing page is required'
+    });
+  }
+  if (html !== undefined && typeof html !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'html must be a string'
+    });
+  }
+  if (!STRATEGY_CHAIN.includes(strategy)) {
+    return res.status(400).json({
+      success: false,
+      error: `strategy must be one of ${STRATEGY_CHAIN.join(', ')}`
+    });
+  }
+
+  try {
+    let pageHtml: string = html;
+    if (!pageHtml) {
+      // Empty selectors: the strategy only fetches (and renders) the page
+      const domain = extractDomain(url);
+      const probe: SiteConfig = { name: domain, domain, selectors: { container: '', title: '', price: '' } };
+      const result = await new HttpOrchestrator(n8nWebhookUrl).testScrape(url, probe, strategy);
+
+      if (!result.html || result.failure === 'bot_challenge' || result.failure === 'http_status') {
+        return res.status(502).json({
+          success: false,
+          error: `Could not load ${url} with ${strategy}: ${result.error || 'no HTML returned'}`,
+          failure: result.failure
+        });
+      }
+      pageHtml = result.html;
+    }
+
+    const suggestion = suggestSiteConfig(pageHtml, url);
+
+    return res.json({
+      success: !!suggestion.draft,
+      ...suggestion,
+      strategy: html ? null : strategy,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Who changed a site config: an X-Author header, or `author` in a rollback body
+const authorOf = (req: express.Request): string => String(req.get('X-Author') || req.body?.author || 'api').substring(0, 100);
+
+// Creates or replaces a site config; the body is the full SiteConfig, the author goes in an X-Author header
+const saveSiteConfig = async (req: express.Request, res: express.Response) => {
+  try {
+    const { config, created } = await siteConfigs.upsert(req.params.domain, req.body);
+
+    // The file is written either way; without a database the change just isn't versioned
+    const version = await siteConfigHistory.record(req.params.domain, config, authorOf(req)).catch(error => {
+      console.error('❌ Failed to record site config version:', error instanceof Error ? error.message : error);
+      return null;
+    });
+
+    return res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? 'Site config created' : 'Site config updated',
+      config,
+      version,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(error instanceof SiteConfigValidationError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errors: error instanceof SiteConfigValidationError ? error.errors : undefined
+    });
+  }
+};
+
+app.put('/sites/:domain', saveSiteConfig);
+app.post('/sites/:domain', saveSiteConfig);
+
+// Version history, newest first, each with the changes against the version before it
+app.get('/sites/:domain/versions', async (req, res) => {
+  try {
+    const versions = await siteConfigHistory.getVersions(req.params.domain);
+
+    return res.json({
+      success: true,
+      domain: req.params.domain,
+      current: siteConfigHistory.getCurrentVersion(req.params.domain) ?? null,
+      versions,
+      count: versions.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// One version's full config; ?against=N diffs it with another version instead of the previous one
+app.get('/sites/:domain/versions/:version', async (req, res) => {
+  const against = req.query.against !== undefined ? Number(req.query.against) : undefined;
+
+  try {
+    const version = await siteConfigHistory.getVersion(req.params.domain, Number(req.params.version), against);
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        error: `${req.params.domain} has no config version ${req.params.version}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      ...version,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Makes an earlier version live again, recorded as a new version
+app.post('/sites/:domain/rollback', async (req, res) => {
+  const version = Number(req.body?.version);
+
+  if (!Number.isInteger(version) || version < 1) {
+    return res.status(400).json({
+      success: false,
+      error: 'version must be a positive integer'
+    });
+  }
+
+  try {
+    const rolledBack = await siteConfigHistory.rollback(req.params.domain, version, authorOf(req));
+
+    if (!rolledBack) {
+      return res.status(404).json({
+        success: false,
+        error: `${req.params.domain} has no config version ${version}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: `${req.params.domain} rolled back to v${version}`,
+      version: rolledBack,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(error instanceof SiteConfigValidationError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errors: error instanceof SiteConfigValidationError ? error.errors : undefined
+    });
+  }
+});
+
+app.delete('/sites/:domain', async (req, res) => {
+  try {
+    const deleted = await siteConfigs.remove(req.params.domain);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: `No site config for ${req.params.domain}`
+      });
+    }
+
+    // Recorded like any other change, so it shows who deleted the config and can be rolled back
+    const version = await siteConfigHistory.recordDeletion(req.params.domain, authorOf(req)).catch(error => {
+      console.error('❌ Failed to record site config deletion:', error instanceof Error ? error.message : error);
+      return null;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Site config deleted',
+      version,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Learned starting strategy and per-strategy success rates per domain
+app.get('/scrape/strategies', (req, res) => {
+  const domains = strategySelector.getStatus();
+
+  res.json({
+    success: true,
+    chain: STRATEGY_CHAIN,
+    domains,
+    count: domains.length,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Proxy health, benches and current domain assignments
+app.get('/scrape/proxies', (req, res) => {
+  const proxies = proxyPool.getStatus();
+
+  res.json({
+    success: true,
+    enabled: proxyPool.enabled,
+    proxies,
+    benched: proxies.filter(proxy => proxy.benched).length,
+    count: proxies.length,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Rate limiting configuration endpoints
+app.post('/config/rate-limit', (req, res) => {
+  const fields = ['concurrency', 'maxPerDomain', 'domainDelayMinutes', 'requestDelaySeconds', 'failureCooldownSeconds'] as const;
+  const updates: typeof rateLimitSettings = {};
+  // batchDelaySeconds is the old name of the failure cool-down
+  const body = { failureCooldownSeconds: req.body.batchDelaySeconds, ...req.body };
+
+  for (const field of fields) {
+    if (body[field] === undefined) continue;
+
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${field} must be a non-negative number`
+      });
+    }
+    updates[field] = value;
+  }
+
+  rateLimitSettings = { ...rateLimitSettings, ...updates };
+
+  return res.json({
+    success: true,
+    message: 'Rate limit configuration updated - applies to the next scraping job',
+    config: applyRateLimits(new HttpOrchestrator(n8nWebhookUrl)).getRateLimitConfig(),
+    timestamp: new Date().toISOString()
+  });
+});
+
 app.get('/config/rate-limit', (req, res) => {
   res.json({
     success: true,
-    config: {
-      domainDelay: '30 minutes (default)',
-      requestDelay: '5 seconds (default)',
-      batchDelay: '30 seconds (default)',
-      concurrency: '1 (rate limited)',
-      note: 'These are the current rate limiting settings to avoid being blocked'
-    },
+    config: applyRateLimits(new HttpOrchestrator(n8nWebhookUrl)).getRateLimitConfig(),
+    overrides: rateLimitSettings,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Per-domain scheduling state of the current (or last) scraping job
+app.get('/scrape/domains', (req, res) => {
+  const domains = activeOrchestrator ? activeOrchestrator.getDomainStatus() : {};
+
+  res.json({
+    success: true,
+    isRunning: scrapingStatus.isRunning,
+    domains,
+    count: Object.keys(domains).length,
     timestamp: new Date().toISOString()
   });
 });
 
-// Store scraped items for dashboard
-let dashboardItems: any[] = [];
-let storedPrices: any[] = []; // N8N'den gelen price items
+const toDashboardItem = (price: StoredPrice) => ({
+  title: price.product_name,
+  price: price.price_text || `${price.price} ${price.currency}`,
+  originalPrice: price.original_price !== null ? `${price.original_price} ${price.currency}` : undefined,
+  discountPercent: price.discount_percent ?? undefined,
+  inStock: price.in_stock,
+  currency: price.currency,
+  region: price.region,
+  url: price.url,
+  siteName: price.domain,
+  gameSlug: price.game_slug || 'unknown',
+  scraped_at: price.scraped_at
+});
 
 // Modern dashboard endpoint
-app.get('/api/dashboard/items', (req, res) => {
-  const { search, sortBy, sortOrder, minPrice, maxPrice } = req.query;
+app.get('/api/dashboard/items', async (req, res) => {
+  const { search, sortBy, sortOrder, minPrice, maxPrice, discounted, inStock } = req.query;
   
-  let filteredItems = [...dashboardItems];
+  let filteredItems: ReturnType<typeof toDashboardItem>[];
+  try {
+    filteredItems = (await priceRepository.getLatestPrices()).map(toDashboardItem);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
   
   // Search filter
   if (search) {
-    const searchTerm = search.toString().toLowerCase();
     filteredItems = filteredItems.filter(item => 
-      item.title.toLowerCase().includes(searchTerm) ||
-      item.siteName.toLowerCase().includes(searchTerm)
+      matchesSearch(item.title, search.toString()) ||
+      matchesSearch(item.siteName, search.toString())
     );
   }
   
+  // Promotions filter
+  if (discounted === 'true') {
+    filteredItems = filteredItems.filter(item => item.discountPercent > 0);
+  }
+  
+  // Availability filter; out-of-stock items can't be bought, so price-sorted (cheapest) views leave them out
+  if (inStock === 'true' || sortBy === 'price') {
+    filteredItems = filteredItems.filter(item => item.inStock !== false);
+  }
+  
   // Price filter
   if (minPrice || maxPrice) {
     filteredItems = filteredItems.filter(item => {
-      const price = parseFloat(item.price.replace(/[^\d.,]/g, '').replace(',', '.'));
+      const { price } = parsePrice(item.price);
       if (minPrice && price < parseFloat(minPrice.toString())) return false;
       if (maxPrice && price > parseFloat(maxPrice.toString())) return false;
       return true;
@@ -522,11 +1305,14 @@ app.get('/api/dashboard/items', (req, res) => {
       let aVal, bVal;
       
       if (sortBy === 'price') {
-        aVal = parseFloat(a.price.replace(/[^\d.,]/g, '').replace(',', '.'));
-        bVal = parseFloat(b.price.replace(/[^\d.,]/g, '').replace(',', '.'));
+        aVal = parsePrice(a.price).price;
+        bVal = parsePrice(b.price).price;
       } else if (sortBy === 'title') {
         aVal = a.title.toLowerCase();
         bVal = b.title.toLowerCase();
+      } else if (sortBy === 'discount') {
+        aVal = a.discountPercent || 0;
+        bVal = b.discountPercent || 0;
       } else if (sortBy === 'siteName') {
         aVal = a.siteName.toLowerCase();
         bVal = b.siteName.toLowerCase();
@@ -542,7 +1328,7 @@ app.get('/api/dashboard/items', (req, res) => {
     });
   }
   
-  res.json({
+  return res.json({
     success: true,
     items: filteredItems,
     total: filteredItems.length,
@@ -552,8 +1338,25 @@ app.get('/api/dashboard/items', (req, res) => {
 
 // Serve static files (dashboard served from public/index.html)
 
-app.listen(port, () => {
-  console.log(`✅ Backend up on http://localhost:${port}`);
-  console.log(`🎯 N8N Webhook: ${n8nWebhookUrl}`);
-  console.log(`🌐 Web Interface: http://localhost:${port}`);
-});
+const start = async () => {
+  try {
+    const applied = await runMigrations();
+    console.log(`🗄️ Database ready (${applied} migration${applied === 1 ? '' : 's'} applied)`);
+  } catch (error) {
+    console.error('❌ Database migrations failed, price storage is unavailable:', error instanceof Error ? error.message : error);
+  }
+
+  // Every load, including hot reloads after an edit on disk, records changed configs as new versions
+  siteConfigs.onLoad(configs => siteConfigHistory.sync(configs));
+  siteConfigs.load();
+  siteConfigs.watch();
+
+  app.listen(port, () => {
+    console.log(`✅ Backend up on http://localhost:${port}`);
+    console.log(`🎯 N8N Webhook: ${n8nWebhookUrl}`);
+    console.log(`🌐 Web Interface: http://localhost:${port}`);
+  });
+};
+
+start();
+
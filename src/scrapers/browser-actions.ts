@@ -0,0 +1,70 @@
+import { Page } from 'puppeteer';
+import { BrowserAction, BrowserConfig } from '../types';
+
+export const DEFAULT_BROWSER_CONFIG: Required<BrowserConfig> = {
+  blockResources: ['image', 'stylesheet'],
+  waitUntil: 'networkidle2',
+  navigationTimeout: 20000,
+  actions: []
+};
+
+export const resolveBrowserConfig = (config?: BrowserConfig): Required<BrowserConfig> => ({
+  ...DEFAULT_BROWSER_CONFIG,
+  ...(config || {})
+});
+
+// Aborts the listed resource types for faster loads; sites that render with CSS/images opt out with []
+export const blockResources = async (page: Page, resourceTypes: string[]): Promise<void> => {
+  if (resourceTypes.length === 0) return;
+
+  await page.setRequestInterception(true);
+  page.on('request', req => {
+    if (resourceTypes.includes(req.resourceType())) {
+      req.abort();
+    } else {
+      req.continue();
+    }
+  });
+};
+
+const runAction = async (page: Page, action: BrowserAction): Promise<void> => {
+  switch (action.type) {
+    case 'wait':
+      await page.waitForTimeout(action.ms);
+      return;
+
+    case 'wait-for-selector':
+      await page.waitForSelector(action.selector, { timeout: action.timeout || 10000 });
+      return;
+
+    case 'scroll':
+      for (let i = 0; i < (action.times || 1); i++) {
+        if (i > 0) await page.waitForTimeout(action.delay ?? 1000);
+        await page.evaluate(() => {
+          window.scrollTo(0, document.body.scrollHeight);
+        });
+      }
+      return;
+
+    case 'click': {
+      const element = await page.$(action.selector);
+      if (!element) throw new Error(`${action.selector} not found`);
+      await element.click();
+      await page.waitForTimeout(action.delay ?? 500);
+      return;
+    }
+
+    default:
+      throw new Error(`unknown action ${JSON.stringify(action)}`);
+  }
+};
+
+export const runBrowserActions = async (page: Page, actions: BrowserAction[], url: string): Promise<void> => {
+  for (const action of actions) {
+    try {
+      await runAction(page, action);
+    } catch (error) {
+      console.log(`⚠️ Browser action ${action.type} skipped on ${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+};
@@ -0,0 +1,269 @@
+import { Browser, Page } from 'puppeteer';
+import puppeteer from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import { ProxyEndpoint, parseProxyUrl } from './proxy-pool';
+
+// Languages, user agent and its client hints come from the per-domain fingerprint profile, not from stealth
+const stealth = StealthPlugin();
+stealth.enabledEvasions.delete('navigator.languages');
+stealth.enabledEvasions.delete('user-agent-override');
+puppeteer.use(stealth);
+
+export interface BrowserPoolOptions {
+  maxBrowsers: number;
+  pagesPerBrowser: number;
+  recycleAfterPages: number;   // Pages served before a browser is replaced
+  memoryLimitMb: number;       // JS heap of a browser's pages before it is replaced
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  pagesInUse: number;
+  idlePages: number;
+  waiting: number;
+  launched: number;
+  recycled: number;
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  proxyId: string | null;
+  busy: Set<Page>;
+  idle: Page[];
+  reserved: number;
+  served: number;
+  retiring: boolean;
+}
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-web-security',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding',
+  '--no-first-run',
+  '--disable-gpu',
+  '--disable-software-rasterizer',
+  '--ignore-certificate-errors',
+  '--ignore-ssl-errors',
+  '--ignore-certificate-errors-spki-list'
+];
+
+export class BrowserPool {
+  private options: BrowserPoolOptions;
+  private browsers: PooledBrowser[] = [];
+  private owners: Map<Page, PooledBrowser> = new Map();
+  private waiters: Array<() => void> = [];
+  private launching: number = 0;
+  private nextId: number = 1;
+  private launched: number = 0;
+  private recycled: number = 0;
+
+  constructor(options: BrowserPoolOptions) {
+    this.options = options;
+  }
+
+  // Chromium takes its proxy at launch, so every browser is bound to one proxy (or none)
+  async acquire(proxy: ProxyEndpoint | null = null): Promise<Page> {
+    const proxyId = proxy ? proxy.id : null;
+
+    while (true) {
+      const pooled = this.browsers.find(b =>
+        !b.retiring && b.proxyId === proxyId && b.busy.size + b.reserved < this.options.pagesPerBrowser
+      );
+      if (pooled) return this.checkout(pooled, proxy);
+
+      // At capacity: an idle browser on another proxy makes room
+      if (this.browsers.filter(b => !b.retiring).length + this.launching >= this.options.maxBrowsers) {
+        const idle = this.browsers.find(b => !b.retiring && b.proxyId !== proxyId && b.busy.size + b.reserved === 0);
+        if (idle) await this.closeBrowser(idle);
+      }
+
+      if (this.browsers.filter(b => !b.retiring).length + this.launching < this.options.maxBrowsers) {
+        return this.checkout(await this.launch(proxy), proxy);
+      }
+
+      // Every slot is taken - wait for a page to be released or a browser to close
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  // Hands a page back; pages that fail their reset are closed instead of reused
+  async release(page: Page): Promise<void> {
+    const pooled = this.owners.get(page);
+    if (!pooled) return;
+
+    pooled.busy.delete(page);
+
+    // Measured before the reset: afterwards the page is about:blank and its heap says nothing
+    const overMemory = !pooled.retiring && await this.exceedsMemory(pooled, page);
+    const reusable = !pooled.retiring && await this.resetPage(page);
+    if (reusable) {
+      pooled.idle.push(page);
+    } else {
+      this.owners.delete(page);
+      await page.close().catch(() => undefined);
+    }
+
+    if (!pooled.retiring && (pooled.served >= this.options.recycleAfterPages || overMemory)) {
+      console.log(`♻️ Recycling browser #${pooled.id} after ${pooled.served} pages`);
+      pooled.retiring = true;
+      this.recycled++;
+    }
+
+    if (pooled.retiring && pooled.busy.size === 0) {
+      await this.closeBrowser(pooled);
+    }
+
+    this.wakeWaiter();
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      browsers: this.browsers.length,
+      pagesInUse: this.browsers.reduce((sum, b) => sum + b.busy.size, 0),
+      idlePages: this.browsers.reduce((sum, b) => sum + b.idle.length, 0),
+      waiting: this.waiters.length,
+      launched: this.launched,
+      recycled: this.recycled
+    };
+  }
+
+  // Closes idle browsers now and busy ones as soon as their pages come back
+  async close(): Promise<void> {
+    const browsers = [...this.browsers];
+    browsers.forEach(pooled => pooled.retiring = true);
+    await Promise.all(browsers.filter(b => b.busy.size === 0).map(b => this.closeBrowser(b)));
+  }
+
+  private async launch(proxy: ProxyEndpoint | null): Promise<PooledBrowser> {
+    this.launching++;
+    try {
+      const browser = await puppeteer.launch({
+        headless: 'new',
+        args: proxy ? [...LAUNCH_ARGS, `--proxy-server=${parseProxyUrl(proxy.url).server}`] : LAUNCH_ARGS,
+        defaultViewport: { width: 1366, height: 768 },
+        timeout: 30000
+      });
+
+      const pooled: PooledBrowser = {
+        id: this.nextId++,
+        browser,
+        proxyId: proxy ? proxy.id : null,
+        busy: new Set(),
+        idle: [],
+        reserved: 0,
+        served: 0,
+        retiring: false
+      };
+      browser.on('disconnected', () => {
+        if (this.browsers.includes(pooled)) {
+          console.warn(`⚠️ Browser #${pooled.id} disconnected, dropping it from the pool`);
+          pooled.retiring = true;
+          this.forget(pooled);
+        }
+      });
+
+      this.launching--;
+      this.browsers.push(pooled);
+      this.launched++;
+      console.log(`🚀 Launched browser #${pooled.id}${proxy ? ` via ${proxy.id}` : ''} (${this.browsers.length}/${this.options.maxBrowsers})`);
+      return pooled;
+    } catch (error) {
+      // Let a waiter take the launch slot this attempt gave up
+      this.launching--;
+      this.wakeWaiter();
+      throw error;
+    }
+  }
+
+  private async checkout(pooled: PooledBrowser, proxy: ProxyEndpoint | null): Promise<Page> {
+    // Reserve the slot before awaiting so concurrent acquires don't overbook this browser
+    pooled.reserved++;
+
+    try {
+      const page = pooled.idle.pop() || await pooled.browser.newPage();
+      const { username, password } = proxy ? parseProxyUrl(proxy.url) : { username: undefined, password: undefined };
+      await page.authenticate(username ? { username, password: password || '' } : null);
+      pooled.busy.add(page);
+      pooled.served++;
+      this.owners.set(page, pooled);
+      return page;
+    } finally {
+      pooled.reserved--;
+    }
+  }
+
+  private async resetPage(page: Page): Promise<boolean> {
+    try {
+      if (page.isClosed()) return false;
+
+      // Drop handlers and settings the previous scrape installed
+      page.removeAllListeners();
+      await page.setRequestInterception(false);
+      await page.setExtraHTTPHeaders({});
+
+      const cookies = await page.cookies();
+      if (cookies.length > 0) await page.deleteCookie(...cookies);
+
+      const origin = new URL(page.url()).origin;
+      if (origin.startsWith('http')) {
+        const session = await page.createCDPSession();
+        await session.send('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+        await session.detach();
+      }
+
+      await page.goto('about:blank', { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Heap of the pages holding a site: the one being released and those still in use (idle pages are blank)
+  private async exceedsMemory(pooled: PooledBrowser, released: Page): Promise<boolean> {
+    try {
+      let heapBytes = 0;
+      for (const page of [released, ...Array.from(pooled.busy)]) {
+        if (page.isClosed()) continue;
+        const metrics = await page.metrics();
+        heapBytes += metrics.JSHeapTotalSize || 0;
+      }
+      return heapBytes / (1024 * 1024) > this.options.memoryLimitMb;
+    } catch {
+      return false;
+    }
+  }
+
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    this.forget(pooled);
+    try {
+      await pooled.browser.close();
+    } catch {
+      // Already gone
+    }
+  }
+
+  private forget(pooled: PooledBrowser): void {
+    this.browsers = this.browsers.filter(b => b !== pooled);
+    pooled.idle.forEach(page => this.owners.delete(page));
+    pooled.idle = [];
+    this.wakeWaiter();
+  }
+
+  private wakeWaiter(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) waiter();
+  }
+}
+
+export const browserPool = new BrowserPool({
+  maxBrowsers: Number(process.env.BROWSER_POOL_SIZE) || 2,
+  pagesPerBrowser: Number(process.env.BROWSER_POOL_PAGES) || 2,
+  recycleAfterPages: Number(process.env.BROWSER_RECYCLE_AFTER) || 50,
+  memoryLimitMb: Number(process.env.BROWSER_MEMORY_LIMIT_MB) || 512
+});
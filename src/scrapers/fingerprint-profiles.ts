@@ -0,0 +1,199 @@
+import UserAgent from 'user-agents';
+import { Page, Protocol } from 'puppeteer';
+
+export interface FingerprintProfile {
+  id: string;
+  userAgent: string;
+  platform: string;
+  viewport: { width: number; height: number; deviceScaleFactor: number };
+  languages: string[];
+  timezone: string;
+  cookies: Protocol.Network.Cookie[];
+}
+
+// Every site we scrape is Turkish, so profiles only vary how Turkish the browser looks
+const LOCALES: { languages: string[]; timezone: string }[] = [
+  { languages: ['tr-TR', 'tr', 'en-US', 'en'], timezone: 'Europe/Istanbul' },
+  { languages: ['tr-TR', 'tr'], timezone: 'Europe/Istanbul' },
+  { languages: ['tr', 'en-US', 'en'], timezone: 'Europe/Istanbul' },
+  { languages: ['en-US', 'en', 'tr'], timezone: 'Europe/Istanbul' }
+];
+
+const MIN_CHROME_VERSION = 110;
+
+// For when the user-agents dataset has nothing to offer; Chromium only, like the dataset filter below
+const FALLBACK_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.133',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+];
+
+const platformOf = (userAgent: string): string => {
+  if (/Macintosh/.test(userAgent)) return 'MacIntel';
+  if (/Linux/.test(userAgent)) return 'Linux x86_64';
+  return 'Win32';
+};
+
+const chromeVersionOf = (userAgent: string): number => {
+  const match = userAgent.match(/Chrome\/(\d+)/);
+  return match ? Number(match[1]) : 0;
+};
+
+// Client hints (navigator.userAgentData, sec-ch-ua* headers) as the profile's browser would send them;
+// without them Chromium reports its own Linux/HeadlessChrome build next to a Windows or Mac UA
+const userAgentMetadataOf = (profile: FingerprintProfile): Protocol.Emulation.UserAgentMetadata => {
+  const fullVersion = (profile.userAgent.match(/Chrome\/([\d.]+)/) || [])[1] || `${chromeVersionOf(profile.userAgent)}.0.0.0`;
+  const major = Number(fullVersion.split('.')[0]);
+  // Edge and Opera UAs carry their own brand next to Chromium
+  const vendor = profile.userAgent.match(/(Edg|OPR)\/([\d.]+)/);
+  const product = vendor
+    ? { brand: vendor[1] === 'Edg' ? 'Microsoft Edge' : 'Opera', version: vendor[2] }
+    : { brand: 'Google Chrome', version: fullVersion };
+
+  // Chrome's GREASE brand and brand order rotate with the major version
+  const separators = [' ', ' ', ';'];
+  const grease = `${separators[major % 3]}Not${separators[(major + 1) % 3]}A${separators[(major + 2) % 3]}Brand`;
+  const order = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]][major % 6];
+  const brandsFor = (version: (brandVersion: string) => string): Protocol.Emulation.UserAgentBrandVersion[] => {
+    const brands = [
+      { brand: grease, version: version('99') },
+      { brand: 'Chromium', version: version(fullVersion) },
+      { brand: product.brand, version: version(product.version) }
+    ];
+    return order.map(index => brands[index]);
+  };
+
+  const platforms: Record<string, { platform: string; platformVersion: string }> = {
+    MacIntel: { platform: 'macOS', platformVersion: '10.15.7' },
+    'Linux x86_64': { platform: 'Linux', platformVersion: '' },
+    Win32: { platform: 'Windows', platformVersion: '10.0.0' }
+  };
+
+  return {
+    brands: brandsFor(version => version.split('.')[0]),
+    fullVersionList: brandsFor(version => version.includes('.') ? version : `${version}.0.0.0`),
+    fullVersion,
+    ...(platforms[profile.platform] || platforms.Win32),
+    architecture: 'x86',
+    bitness: '64',
+    model: '',
+    mobile: false,
+    wow64: false
+  };
+};
+
+export const toAcceptLanguage = (languages: string[]): string => {
+  return languages.map((language, index) => index === 0 ? language : `${language};q=${(1 - index * 0.1).toFixed(1)}`).join(',');
+};
+
+const pick = <T>(values: T[]): T => values[Math.floor(Math.random() * values.length)];
+
+export class FingerprintProfiles {
+  private profiles: Map<string, FingerprintProfile> = new Map();
+  private scripts: WeakMap<Page, string> = new WeakMap();
+  private generated: number = 0;
+
+  // Sticky per domain: the same fingerprint and cookie jar for every URL of a run
+  getProfile(domain: string): FingerprintProfile {
+    let profile = this.profiles.get(domain);
+    if (!profile) {
+      profile = this.generate();
+      this.profiles.set(domain, profile);
+      console.log(`🪪 Profile ${profile.id} for ${domain}: ${profile.platform}, ${profile.viewport.width}x${profile.viewport.height}, ${profile.languages[0]}`);
+    }
+    return profile;
+  }
+
+  // A blocked fingerprint is burned for the rest of the run
+  rotate(domain: string): FingerprintProfile {
+    this.profiles.delete(domain);
+    return this.getProfile(domain);
+  }
+
+  // Called at the start of a run so each run looks like a fresh set of visitors
+  reset(): void {
+    this.profiles.clear();
+  }
+
+  async apply(page: Page, profile: FingerprintProfile, headers: Record<string, string> = {}): Promise<void> {
+    await page.setUserAgent(profile.userAgent, userAgentMetadataOf(profile));
+    await page.setViewport(profile.viewport);
+    await page.emulateTimezone(profile.timezone);
+    await page.setExtraHTTPHeaders({ ...headers, 'Accept-Language': toAcceptLanguage(profile.languages) });
+
+    // Pooled pages are reused, so the previous profile's script has to go first
+    const previous = this.scripts.get(page);
+    if (previous) await page.removeScriptToEvaluateOnNewDocument(previous);
+
+    const { identifier } = await page.evaluateOnNewDocument((languages: string[], platform: string) => {
+      Object.defineProperty(navigator, 'languages', { get: () => languages });
+      Object.defineProperty(navigator, 'language', { get: () => languages[0] });
+      Object.defineProperty(navigator, 'platform', { get: () => platform });
+    }, profile.languages, profile.platform);
+    this.scripts.set(page, identifier);
+
+    if (profile.cookies.length > 0) {
+      await page.setCookie(...profile.cookies);
+    }
+  }
+
+  // Keeps the cookies a site handed out (consent, clearance) for the domain's next URL
+  async saveCookies(page: Page, profile: FingerprintProfile): Promise<void> {
+    try {
+      profile.cookies = await page.cookies();
+    } catch {
+      // Page already gone - keep the previous jar
+    }
+  }
+
+  private generate(): FingerprintProfile {
+    const locale = pick(LOCALES);
+    this.generated++;
+
+    try {
+      // Recent Chromium UAs only - stealth patches Chrome internals, a Firefox UA on top would contradict them.
+      // The dataset also has entries whose platform disagrees with their UA; those are skipped.
+      const agent = new UserAgent(data =>
+        data.deviceCategory === 'desktop' &&
+        data.vendor === 'Google Inc.' &&
+        chromeVersionOf(data.userAgent) >= MIN_CHROME_VERSION &&
+        platformOf(data.userAgent) === data.platform
+      );
+      const { userAgent, platform, viewportWidth, viewportHeight } = agent.data;
+
+      return {
+        id: `fp-${this.generated}`,
+        userAgent,
+        platform,
+        viewport: {
+          width: Math.max(1280, viewportWidth || 0),
+          height: Math.max(720, viewportHeight || 0),
+          deviceScaleFactor: 1
+        },
+        languages: locale.languages,
+        timezone: locale.timezone,
+        cookies: []
+      };
+    } catch {
+      // The user-agents dataset can come up empty for a filter; fall back to the built-in list
+      const userAgent = pick(FALLBACK_USER_AGENTS);
+      return {
+        id: `fp-${this.generated}`,
+        userAgent,
+        platform: platformOf(userAgent),
+        viewport: pick([
+          { width: 1920, height: 1080, deviceScaleFactor: 1 },
+          { width: 1536, height: 864, deviceScaleFactor: 1 },
+          { width: 1366, height: 768, deviceScaleFactor: 1 }
+        ]),
+        languages: locale.languages,
+        timezone: locale.timezone,
+        cookies: []
+      };
+    }
+  }
+}
+
+export const fingerprintProfiles = new FingerprintProfiles();
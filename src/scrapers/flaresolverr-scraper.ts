@@ -1,144 +1,126 @@
-import axios from 'axios';
-import { ScrapedItem, ScrapingResult, SiteConfig } from '../types';
-import {
-  extractDomain,
-  extractGameSlug,
-  parsePrice,
-  isValidPrice,
-  sanitizeText
-} from '../utils/helpers';
-import * as cheerio from 'cheerio';
+import axios, { AxiosError } from 'axios';
+import { ScrapingResult, SiteConfig } from '../types';
+import { extractDomain } from '../utils/helpers';
+import { PageSignals, classifyFailure } from '../utils/failure-classifier';
+import { detectChallenge } from './html-extractor';
+import { collectHtmlPages } from './pagination';
+import { FlareSolverrResponse, FlareSolverrSession, FlareSolverrSessions, flaresolverrSessions } from './flaresolverr-sessions';
+import { ProxyEndpoint } from './proxy-pool';
 
 export class FlareSolverrScraper {
   private config: SiteConfig;
   private flaresolverrUrl: string;
   private userAgent: string;
+  private sessions: FlareSolverrSessions;
 
-  constructor(config: SiteConfig) {
+  constructor(config: SiteConfig, sessions: FlareSolverrSessions = flaresolverrSessions) {
     this.config = config;
+    this.sessions = sessions;
     this.flaresolverrUrl = process.env.FLARESOLVERR_URL || 'http://flaresolverr:8191';
     this.userAgent =
       process.env.USER_AGENT ||
       'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
   }
 
-  async scrapeUrl(url: string): Promise<ScrapingResult> {
+  async scrapeUrl(url: string, proxy: ProxyEndpoint | null = null, keepHtml: boolean = false): Promise<ScrapingResult> {
     const startTime = Date.now();
     const domain = extractDomain(url);
 
     console.log(`🛡️ Using FlareSolverr for ${url} ...`);
+    let statusCode: number | undefined;
+    let signals: PageSignals = {};
+    let session: FlareSolverrSession | null = null;
+    let result: ScrapingResult;
 
     try {
-      const sessionId = `session_${domain || 'default'}`;
+      session = await this.sessions.acquire(domain, proxy);
 
-      // Session oluşturmayı dene (varsa hata yutulur)
-      try {
-        await axios.post(
-          `${this.flaresolverrUrl}/v1`,
-          { cmd: 'sessions.create', session: sessionId },
-          { timeout: 30000 }
-        );
-      } catch {
-        console.log(`🛡️ Session ${sessionId} already exists or not needed, continuing...`);
-      }
-
-      // GET isteği (zorlu CF için geniş timeout)
-      const flareResponse = await axios.post(
-        `${this.flaresolverrUrl}/v1`,
-        {
-          cmd: 'request.get',
-          url,
-          session: sessionId,
-          maxTimeout: 180000,
-          userAgent: this.userAgent
-        },
-        {
-          timeout: 190000,
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
+      const response = await this.requestPage(url, session);
+      const html = response.html;
+      signals = { html };
 
-      if (flareResponse.data.status !== 'ok') {
-        throw new Error(`FlareSolverr error: ${flareResponse.data.message}`);
+      statusCode = response.statusCode;
+      const challengeTitle = detectChallenge(html);
+      if (challengeTitle) {
+        throw new Error(`Bot challenge page detected: "${challengeTitle}"`);
+      }
+      if (statusCode !== undefined && statusCode >= 400) {
+        throw new Error(`HTTP ${statusCode}`);
       }
 
-      const html = flareResponse.data.solution.response as string;
-      const $ = cheerio.load(html);
-
-      const items: ScrapedItem[] = [];
-      $(this.config.selectors.container).each((_, el) => {
-        try {
-          const $item = $(el);
-
-          // Title
-          let title = '';
-          for (const sel of this.config.selectors.title.split(',').map(s => s.trim())) {
-            const t = $item.find(sel).first();
-            if (t && t.text().trim()) {
-              title = t.text().trim();
-              break;
-            }
-          }
-          if (!title) {
-            // attribute fallback
-            const anyTitle =
-              $item.attr('title') || $item.attr('alt') || $item.attr('data-title') || '';
-            title = anyTitle.toString().trim();
-          }
-
-          // Price
-          let priceText = '';
-          for (const sel of this.config.selectors.price.split(',').map(s => s.trim())) {
-            const p = $item.find(sel).first();
-            if (p && p.text().trim()) {
-              priceText = p.text().trim();
-              break;
-            }
-          }
-          if (!title || !priceText) return;
-
-          // Parse price
-          const priceResult = parsePrice(priceText);
-          if (!isValidPrice(priceResult.price)) return;
-
-          items.push({
-            title: sanitizeText(title),
-            price: priceText,
-            currency: priceResult.currency,
-            url,
-            siteName: domain,
-            gameSlug: extractGameSlug(url, title),
-            region: 'TR'
-          });
-        } catch (e) {
-          console.warn(`⚠️ Parse error on ${domain}:`, e);
-        }
+      // Later pages go through the same session, which already holds the clearance cookies
+      const { items, containers, candidates } = await collectHtmlPages(url, html, this.config, async pageUrl => {
+        const next = await this.requestPage(pageUrl, session);
+        const nextChallenge = detectChallenge(next.html);
+        if (nextChallenge) throw new Error(`Bot challenge page detected: "${nextChallenge}"`);
+        if (next.statusCode !== undefined && next.statusCode >= 400) throw new Error(`HTTP ${next.statusCode}`);
+        return next.html;
       });
 
       const ms = Date.now() - startTime;
       console.log(`🛡️ FlareSolverr scraped ${items.length} items from ${domain} (${ms}ms)`);
 
-      return {
+      result = {
         url,
-        success: true,
+        success: items.length > 0,
         items,
         responseTime: ms,
         siteName: domain,
-        error: null
+        statusCode,
+        html: keepHtml ? html : undefined,
+        error: items.length === 0 ? 'No items found with FlareSolverr' : undefined,
+        failure: items.length === 0 ? classifyFailure(undefined, { statusCode, html, containers, candidates }) : undefined
       };
     } catch (err) {
       const ms = Date.now() - startTime;
-      const msg = err instanceof Error ? err.message : 'Unknown error';
+      // FlareSolverr reports unsolved challenges and upstream timeouts in the response body
+      const flareMessage = axios.isAxiosError(err) ? (err as AxiosError<FlareSolverrResponse>).response?.data?.message : undefined;
+      const msg = flareMessage
+        ? `FlareSolverr error: ${flareMessage}`
+        : err instanceof Error ? err.message : 'Unknown error';
       console.error(`❌ FlareSolverr scraping failed for ${domain}: ${msg}`);
 
-      return {
+      result = {
         url,
         success: false,
         items: [],
         responseTime: ms,
         siteName: domain,
-        error: msg
+        statusCode,
+        html: keepHtml ? signals.html : undefined,
+        error: msg,
+        failure: classifyFailure(msg, { ...signals, statusCode })
       };
     }
+
+    if (session) await this.sessions.release(session, result.failure);
+    return result;
+  }
+
+  private async requestPage(url: string, session: FlareSolverrSession): Promise<{ statusCode: number | undefined; html: string }> {
+    // GET isteği (zorlu CF için geniş timeout)
+    const flareResponse = await axios.post<FlareSolverrResponse>(
+      `${this.flaresolverrUrl}/v1`,
+      {
+        cmd: 'request.get',
+        url,
+        session: session.id,
+        maxTimeout: 180000,
+        userAgent: this.userAgent
+      },
+      {
+        timeout: 190000,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+    if (flareResponse.data.status !== 'ok') {
+      throw new Error(`FlareSolverr error: ${flareResponse.data.message}`);
+    }
+
+    return {
+      statusCode: flareResponse.data.solution.status,
+      html: flareResponse.data.solution.response
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SiteConfig } from '../types';
+import { FlareSolverrResponse, FlareSolverrSessions } from './flaresolverr-sessions';
+import { FlareSolverrScraper } from './flaresolverr-scraper';
+
+const LISTING = `<html><head><title>Valorant VP</title></head><body>
+  <div class="product"><h3>Valorant 1000 VP</h3><span class="price">249,90 TL</span></div>
+</body></html>`;
+
+const CHALLENGE = '<html><head><title>Just a moment...</title></head><body>Checking your browser</body></html>';
+
+const config: SiteConfig = {
+  name: 'Test',
+  domain: 'test',
+  selectors: { container: '.product', title: 'h3', price: '.price' }
+};
+
+// Fake FlareSolverr /v1: keeps a session list and serves the listing, or a challenge for challenge.test
+class FakeFlareSolverr {
+  sessions: Set<string> = new Set();
+  commands: { cmd: string; session?: string }[] = [];
+  private server: http.Server;
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        this.commands.push({ cmd: payload.cmd, session: payload.session });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(this.handle(payload)));
+      });
+    });
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  count(cmd: string): number {
+    return this.commands.filter(command => command.cmd === cmd).length;
+  }
+
+  private handle(payload: { cmd: string; session?: string; url?: string }): FlareSolverrResponse {
+    switch (payload.cmd) {
+      case 'sessions.list':
+        return { status: 'ok', sessions: Array.from(this.sessions) };
+      case 'sessions.create':
+        this.sessions.add(payload.session);
+        return { status: 'ok' };
+      case 'sessions.destroy':
+        this.sessions.delete(payload.session);
+        return { status: 'ok' };
+      case 'request.get':
+        if (!this.sessions.has(payload.session)) return { status: 'error', message: 'This session does not exist.' };
+        return {
+          status: 'ok',
+          solution: {
+            url: payload.url,
+            status: 200,
+            response: new URL(payload.url).hostname === 'challenge.test' ? CHALLENGE : LISTING
+          }
+        };
+      default:
+        return { status: 'error', message: `Unknown command ${payload.cmd}` };
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('FlareSolverr sessions', () => {
+  const flare = new FakeFlareSolverr();
+  const createSessions = (options: { ttl?: number; idleTimeout?: number; instance?: string } = {}) =>
+    new FlareSolverrSessions(flare.url, { ttl: 60000, idleTimeout: 60000, instance: 'replica-a', ...options });
+
+  before(async () => {
+    // Scrape logs would interleave with the test runner's output
+    for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => undefined);
+    await flare.start();
+    process.env.FLARESOLVERR_URL = flare.url;
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await flare.stop();
+  });
+
+  beforeEach(() => {
+    flare.sessions.clear();
+    flare.commands = [];
+  });
+
+  test('reuses one session per domain across scrapes', async () => {
+    const sessions = createSessions();
+    const scraper = new FlareSolverrScraper(config, sessions);
+
+    const first = await scraper.scrapeUrl('http://shop.test/valorant');
+    const second = await scraper.scrapeUrl('http://shop.test/valorant?page=2');
+    const other = await scraper.scrapeUrl('http://other.test/valorant');
+
+    assert.equal(first.success, true);
+    assert.equal(first.error, undefined);
+    assert.equal(second.success, true);
+    assert.equal(other.success, true);
+    assert.equal(flare.count('sessions.create'), 2);
+
+    const status = sessions.getStatus();
+    assert.deepEqual(status.map(session => session.key).sort(), ['other.test', 'shop.test']);
+    assert.equal(status.find(session => session.key === 'shop.test').requests, 2);
+    assert.ok(status.every(session => !session.inUse));
+  });
+
+  test('sweeps sessions that sat idle or outlived their TTL', async () => {
+    const idle = createSessions({ idleTimeout: 50 });
+    await idle.release(await idle.acquire('shop.test'));
+    await sleep(80);
+    await idle.sweep();
+    assert.deepEqual(idle.getStatus(), []);
+    assert.equal(flare.sessions.size, 0);
+
+    // Kept busy, so never idle - but too old to reuse once released
+    const aging = createSessions({ ttl: 50, instance: 'replica-b' });
+    const session = await aging.acquire('shop.test');
+    await sleep(80);
+    await aging.release(session);
+    const fresh = await aging.acquire('shop.test');
+    assert.notEqual(fresh.id, session.id);
+    assert.deepEqual(Array.from(flare.sessions), [fresh.id]);
+  });
+
+  test('destroys a session after a challenge or a broken request, keeps it after a page failure', async () => {
+    const sessions = createSessions();
+    const scraper = new FlareSolverrScraper(config, sessions);
+
+    const challenged = await scraper.scrapeUrl('http://challenge.test/valorant');
+    assert.equal(challenged.failure, 'bot_challenge');
+    assert.deepEqual(sessions.getStatus(), []);
+    assert.equal(flare.sessions.size, 0);
+
+    const kept = await sessions.acquire('shop.test');
+    await sessions.release(kept, 'selector_miss');
+    assert.deepEqual(sessions.getStatus().map(session => session.id), [kept.id]);
+
+    // FlareSolverr lost the session (restart): the error ends it here too
+    flare.sessions.delete(kept.id);
+    const lost = await scraper.scrapeUrl('http://shop.test/valorant');
+    assert.equal(lost.success, false);
+    assert.match(lost.error, /FlareSolverr error: This session does not exist/);
+    assert.deepEqual(sessions.getStatus(), []);
+  });
+
+  test('destroys only its own orphaned sessions on first use', async () => {
+    flare.sessions = new Set([
+      'session_replica-a_shop.test_old1',
+      'session_replica-ab_shop.test_old2',
+      'session_replica-b_shop.test_live',
+      'manual-debugging'
+    ]);
+
+    const sessions = createSessions();
+    const session = await sessions.acquire('shop.test');
+    await sessions.acquire('other.test');
+
+    assert.equal(flare.count('sessions.list'), 1);
+    assert.deepEqual(Array.from(flare.sessions).sort(), [
+      'manual-debugging',
+      'session_replica-ab_shop.test_old2',
+      'session_replica-b_shop.test_live',
+      session.id,
+      sessions.getStatus().find(status => status.key === 'other.test').id
+    ].sort());
+    assert.ok(session.id.startsWith('session_replica-a_'));
+  });
+});
@@ -0,0 +1,209 @@
+import axios from 'axios';
+import os from 'os';
+import { FailureKind } from '../types';
+import { ProxyEndpoint, parseProxyUrl } from './proxy-pool';
+
+export interface FlareSolverrSessionOptions {
+  ttl: number;           // Max age of a session before it is replaced (ms)
+  idleTimeout: number;   // Unused sessions older than this are destroyed (ms)
+  instance?: string;     // Tells this service's sessions from other replicas' on a shared FlareSolverr
+}
+
+// Body of every FlareSolverr /v1 answer, errors included; which fields are set depends on the command
+export interface FlareSolverrResponse {
+  status: 'ok' | 'error' | string;
+  message?: string;
+  sessions?: string[];
+  solution?: {
+    url: string;
+    status: number;
+    response: string;
+  };
+}
+
+export interface FlareSolverrSession {
+  id: string;
+  key: string;
+  proxy: { url: string; username?: string; password?: string } | undefined;
+  createdAt: number;
+  lastUsed: number;
+  requests: number;
+  inUse: boolean;
+}
+
+export interface FlareSolverrSessionStatus {
+  id: string;
+  key: string;
+  ageSeconds: number;
+  idleSeconds: number;
+  requests: number;
+  inUse: boolean;
+}
+
+// Sessions are named session_<instance>_..., so an instance only ever cleans up its own leftovers. The host
+// name stays the same across restarts of a container, which is what lets a restarted replica find them.
+const SESSION_PREFIX = 'session_';
+
+const defaultInstance = (): string => process.env.FLARESOLVERR_INSTANCE || os.hostname();
+
+// Failures that say something about the page, not the session. Anything else - a failed challenge,
+// a timeout, "session not found" - leaves the session's browser flagged or dead.
+const KEEP_AFTER: FailureKind[] = ['http_status', 'selector_miss', 'empty_category', 'parse_failure'];
+
+// Each FlareSolverr session is a full browser in the FlareSolverr container, so they are pooled and torn down here
+export class FlareSolverrSessions {
+  private url: string;
+  private options: FlareSolverrSessionOptions;
+  private sessions: Map<string, FlareSolverrSession[]> = new Map();
+  private synced: boolean = false;
+  private created: number = 0;
+  private prefix: string;
+
+  constructor(url: string, options: FlareSolverrSessionOptions) {
+    this.url = url;
+    this.options = options;
+    const instance = (options.instance || defaultInstance()).toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+    this.prefix = `${SESSION_PREFIX}${instance}_`;
+  }
+
+  // An idle, unexpired session for the domain/proxy pair, or a new one
+  async acquire(domain: string, proxy: ProxyEndpoint | null = null): Promise<FlareSolverrSession> {
+    await this.sync();
+    await this.sweep();
+
+    // Sessions keep their proxy for life, so each domain/proxy pair gets its own
+    const key = `${domain || 'default'}${proxy ? `_${proxy.id}` : ''}`;
+    const pool = this.sessions.get(key) || [];
+    this.sessions.set(key, pool);
+
+    const now = Date.now();
+    const reusable = pool.find(session => !session.inUse && now - session.createdAt < this.options.ttl);
+    if (reusable) {
+      reusable.inUse = true;
+      return reusable;
+    }
+
+    const session: FlareSolverrSession = {
+      id: `${this.prefix}${key}_${Date.now().toString(36)}${++this.created}`,
+      key,
+      proxy: proxy ? this.toFlareProxy(proxy) : undefined,
+      createdAt: now,
+      lastUsed: now,
+      requests: 0,
+      inUse: true
+    };
+    pool.push(session);
+
+    try {
+      await this.call({ cmd: 'sessions.create', session: session.id, proxy: session.proxy }, 60000);
+      console.log(`🛡️ Created FlareSolverr session ${session.id}`);
+      return session;
+    } catch (error) {
+      this.forget(session);
+      throw error;
+    }
+  }
+
+  // Hands a session back; one that just failed a challenge or broke is destroyed so the retry starts clean
+  async release(session: FlareSolverrSession, failure?: FailureKind): Promise<void> {
+    session.inUse = false;
+    session.lastUsed = Date.now();
+    session.requests++;
+
+    if (failure && !KEEP_AFTER.includes(failure)) {
+      console.log(`🛡️ Discarding FlareSolverr session ${session.id} after ${failure}`);
+      await this.destroy(session);
+    }
+  }
+
+  // Destroys sessions that sat unused too long or outlived their TTL
+  async sweep(): Promise<void> {
+    const now = Date.now();
+    const stale = this.all().filter(session =>
+      !session.inUse &&
+      (now - session.lastUsed >= this.options.idleTimeout || now - session.createdAt >= this.options.ttl)
+    );
+    await Promise.all(stale.map(session => this.destroy(session)));
+  }
+
+  // Destroys every idle session; busy ones go when they are released
+  async close(): Promise<void> {
+    const idle = this.all().filter(session => !session.inUse);
+    await Promise.all(idle.map(session => this.destroy(session)));
+    if (idle.length > 0) console.log(`🛡️ Destroyed ${idle.length} FlareSolverr sessions`);
+  }
+
+  getStatus(): FlareSolverrSessionStatus[] {
+    const now = Date.now();
+    return this.all().map(session => ({
+      id: session.id,
+      key: session.key,
+      ageSeconds: Math.round((now - session.createdAt) / 1000),
+      idleSeconds: session.inUse ? 0 : Math.round((now - session.lastUsed) / 1000),
+      requests: session.requests,
+      inUse: session.inUse
+    }));
+  }
+
+  // Once per process: sessions an earlier process of this instance left behind are invisible to this one, so
+  // they go; other instances' sessions are theirs to manage
+  private async sync(): Promise<void> {
+    if (this.synced) return;
+
+    try {
+      const response = await this.call({ cmd: 'sessions.list' }, 30000);
+      const known = new Set(this.all().map(session => session.id));
+      const orphans = (response.sessions || []).filter(id => id.startsWith(this.prefix) && !known.has(id));
+
+      await Promise.all(orphans.map(id => this.call({ cmd: 'sessions.destroy', session: id }, 30000).catch(() => undefined)));
+      if (orphans.length > 0) console.log(`🛡️ Destroyed ${orphans.length} orphaned FlareSolverr sessions`);
+      this.synced = true;
+    } catch (error) {
+      // FlareSolverr unreachable - the request that follows will report it
+      console.warn('⚠️ Could not list FlareSolverr sessions:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async destroy(session: FlareSolverrSession): Promise<void> {
+    this.forget(session);
+    try {
+      await this.call({ cmd: 'sessions.destroy', session: session.id }, 30000);
+    } catch {
+      // Already gone on the FlareSolverr side
+    }
+  }
+
+  private forget(session: FlareSolverrSession): void {
+    const pool = (this.sessions.get(session.key) || []).filter(s => s !== session);
+    if (pool.length > 0) {
+      this.sessions.set(session.key, pool);
+    } else {
+      this.sessions.delete(session.key);
+    }
+  }
+
+  private all(): FlareSolverrSession[] {
+    return Array.from(this.sessions.values()).flat();
+  }
+
+  private async call(payload: Record<string, unknown>, timeout: number): Promise<FlareSolverrResponse> {
+    const response = await axios.post<FlareSolverrResponse>(`${this.url}/v1`, payload, {
+      timeout,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    if (response.data.status !== 'ok') {
+      throw new Error(`FlareSolverr error: ${response.data.message}`);
+    }
+    return response.data;
+  }
+
+  private toFlareProxy(proxy: ProxyEndpoint): { url: string; username?: string; password?: string } {
+    const { server, username, password } = parseProxyUrl(proxy.url);
+    return { url: server, username, password };
+  }
+}
+
+export const flaresolverrSessions = new FlareSolverrSessions(process.env.FLARESOLVERR_URL || 'http://flaresolverr:8191', {
+  ttl: Number(process.env.FLARESOLVERR_SESSION_TTL) || 30 * 60 * 1000,
+  idleTimeout: Number(process.env.FLARESOLVERR_SESSION_IDLE) || 5 * 60 * 1000
+});
@@ -0,0 +1,307 @@
+import * as cheerio from 'cheerio';
+import { ScrapedItem, SiteConfig } from '../types';
+import {
+  detectRegion,
+  extractDomain,
+  extractGameSlug,
+  hasOutOfStockKeyword,
+  isChallengeTitle,
+  isValidPrice
+} from '../utils/helpers';
+import { normalizeText } from '../utils/text-normalizer';
+import { parseDiscount, parsePrice } from '../utils/price-parser';
+import { extractStructuredItems } from './structured-data';
+import { findProductBlocks } from './listing-analyzer';
+
+// Last resort for loose configs: the first "<amount> <currency>" in a container's text
+const PRICE_IN_TEXT = /\d[\d.,]*\s*(tl|₺|try|usd|eur)/i;
+
+// Sites without an outOfStockSelector: a buy / add-to-cart control rendered disabled marks a sold-out card
+const DISABLED_CONTROL = 'button[disabled], input[disabled], [aria-disabled="true"], .disabled, .btn-disabled';
+const BUY_HINT = /sepete|sepet|satın al|satin al|add to (cart|basket)|\bbuy\b|\bcart\b|basket/i;
+
+const hasDisabledBuyButton = ($item: cheerio.Cheerio): boolean => {
+  const controls = $item.find(DISABLED_CONTROL);
+  for (let i = 0; i < controls.length; i++) {
+    const control = controls.eq(i);
+    const label = [control.text(), control.attr('value'), control.attr('class'), control.attr('aria-label')].join(' ');
+    if (BUY_HINT.test(label)) return true;
+  }
+  return false;
+};
+
+// Title of a bot challenge interstitial, or null when the HTML is a real page
+export const detectChallenge = (html: string): string | null => {
+  const title = cheerio.load(html)('title').first().text().trim();
+  return isChallengeTitle(title) ? title : null;
+};
+
+// Items plus the counts the failure classifier needs when there are none
+export interface HtmlExtraction {
+  items: ScrapedItem[];
+  containers: number;
+  candidates: number;
+}
+
+// Splits a selector list at top-level commas, so "a, b:is(.c, .d), [title='x, y']" gives three selectors
+export const splitSelectors = (selectorList: string): string[] => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of selectorList || '') {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      selectors.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  selectors.push(current.trim());
+
+  return selectors.filter(Boolean);
+};
+
+// Text of the first selector in the list (in the list's order, not the document's) that has any
+const firstText = ($item: cheerio.Cheerio, selectorList: string | undefined): string => {
+  for (const selector of splitSelectors(selectorList)) {
+    try {
+      const text = $item.find(selector).first().text().trim();
+      if (text) return text;
+    } catch {
+      // Invalid selector - try the next one
+    }
+  }
+  return '';
+};
+
+// An item, or why the container was dropped; candidate means it had a title and a price to try
+interface ContainerOutcome {
+  candidate: boolean;
+  item?: ScrapedItem;
+  reason?: string;
+}
+
+const extractItem = ($item: cheerio.Cheerio, url: string, domain: string, config: SiteConfig): ContainerOutcome => {
+  const containerText = $item.text();
+
+  let title = firstText($item, config.selectors.title) ||
+    ($item.attr('title') || $item.attr('alt') || $item.attr('data-title') || '').trim();
+  let priceText = firstText($item, config.selectors.price);
+
+  if (!title || !priceText) {
+    const priceMatch = containerText.match(PRICE_IN_TEXT);
+    if (priceMatch) {
+      priceText = priceMatch[0];
+      if (!title) title = containerText.split(priceMatch[0])[0].trim().substring(0, 100);
+    }
+  }
+  if (!title && !priceText) return { candidate: false, reason: 'no title or price found' };
+  if (!title) return { candidate: false, reason: 'no title found' };
+  if (!priceText) return { candidate: false, reason: 'no price found' };
+
+  return buildItem($item, title, priceText, firstText($item, config.selectors.originalPrice), url, domain, config);
+};
+
+// Shared tail of selector and heuristic extraction: price checks, discount, stock, slug and region
+const buildItem = (
+  $item: cheerio.Cheerio,
+  title: string,
+  priceText: string,
+  originalPriceText: string,
+  url: string,
+  domain: string,
+  config: SiteConfig
+): ContainerOutcome => {
+  if (title.length <= 3) return { candidate: false, reason: `title too short: "${title}"` };
+
+  const priceResult = parsePrice(priceText);
+  if (!priceResult.ok) return { candidate: true, reason: `price not parsed: ${priceResult.reason}` };
+  if (!isValidPrice(priceResult.price)) return { candidate: true, reason: `price out of range: ${priceResult.price}` };
+
+  const { discountPercent } = parseDiscount(priceText, originalPriceText);
+
+  const availability = config.availability;
+  const soldOutBySelector = availability?.outOfStockSelector
+    ? $item.is(availability.outOfStockSelector) || $item.find(availability.outOfStockSelector).length > 0
+    : hasDisabledBuyButton($item);
+
+  return {
+    candidate: true,
+    item: {
+      title: normalizeText(title, 200),
+      price: priceText,
+      originalPrice: discountPercent ? originalPriceText : undefined,
+      discountPercent,
+      inStock: !soldOutBySelector && !hasOutOfStockKeyword($item.text(), availability?.outOfStockKeywords),
+      currency: priceResult.currency,
+      url,
+      siteName: domain,
+      gameSlug: extractGameSlug(url, title),
+      region: detectRegion(url, title)
+    }
+  };
+};
+
+// Domains without a site config: cards are found by page structure (repeated priced blocks) instead of
+// selectors, so the items are flagged as low confidence
+const extractHeuristicItems = ($: cheerio.Root, url: string, config: SiteConfig): HtmlExtraction => {
+  const domain = extractDomain(url);
+  const { products, containers } = findProductBlocks($);
+  const items: ScrapedItem[] = [];
+
+  for (const product of products) {
+    const outcome = buildItem($(product.element), product.title, product.price, product.originalPrice || '', url, domain, config);
+    if (outcome.item) items.push({ ...outcome.item, lowConfidence: true });
+  }
+
+  return { items, containers, candidates: products.length };
+};
+
+// Container selectors are alternatives: the first one yielding priced items wins, so broad fallbacks
+// that also match wrappers of the same products don't duplicate them
+const extractFromContainers = (
+  $: cheerio.Root,
+  url: string,
+  config: SiteConfig,
+  inspect?: (selector: string, element: cheerio.Cheerio, outcome: ContainerOutcome) => void
+): HtmlExtraction & { selector: string | null } => {
+  const domain = extractDomain(url);
+  let containers = 0;
+  let candidates = 0;
+  let firstMatching: string | null = null;
+
+  for (const selector of splitSelectors(config.selectors.container)) {
+    let elements: cheerio.Cheerio;
+    try {
+      elements = $(selector);
+    } catch {
+      console.warn(`⚠️ Invalid container selector for ${domain}: ${selector}`);
+      continue;
+    }
+    if (elements.length === 0) continue;
+    containers += elements.length;
+    firstMatching = firstMatching || selector;
+
+    const items: ScrapedItem[] = [];
+    elements.each((_, el) => {
+      let outcome: ContainerOutcome;
+      try {
+        outcome = extractItem($(el), url, domain, config);
+      } catch (e) {
+        console.warn(`⚠️ Parse error on ${domain}:`, e);
+        outcome = { candidate: false, reason: `parse error: ${e instanceof Error ? e.message : e}` };
+      }
+      if (outcome.candidate) candidates++;
+      if (outcome.item) items.push(outcome.item);
+      inspect?.(selector, $(el), outcome);
+    });
+
+    if (items.length > 0) return { items, containers, candidates, selector };
+  }
+
+  return { items: [], containers, candidates, selector: firstMatching };
+};
+
+// The one extraction engine: every strategy hands it HTML (plain HTTP, FlareSolverr, Puppeteer's page.content())
+// so a site config gives the same items whichever fetcher got the page
+export const extractItemsFromHtml = (html: string, url: string, config: SiteConfig): HtmlExtraction => {
+  // Product JSON in the page beats any selector; selectors remain the fallback when it is missing
+  const structured = extractStructuredItems(html, url, config);
+  if (structured.length > 0) {
+    return { items: structured, containers: structured.length, candidates: structured.length };
+  }
+
+  if (config.generic) return extractHeuristicItems(cheerio.load(html), url, config);
+
+  const { items, containers, candidates } = extractFromContainers(cheerio.load(html), url, config);
+  return { items, containers, candidates };
+};
+
+export interface SelectorMatches {
+  selector: string;
+  matches: number;
+  error?: string;
+}
+
+export interface RejectedContainer {
+  selector: string;
+  index: number;
+  reason: string;
+}
+
+// What the engine saw on a page, for trying out selectors: container counts are page-wide,
+// title/price counts are elements inside the containers items were taken from
+export interface ExtractionDebug {
+  structuredItems: number;
+  container: string | null;
+  containers: number;
+  candidates: number;
+  selectors: { [field in 'container' | 'title' | 'price' | 'originalPrice']: SelectorMatches[] };
+  samples: string[];
+  rejected: RejectedContainer[];
+}
+
+const MAX_SAMPLE_LENGTH = 3000;
+const MAX_REJECTED = 100;
+
+const countMatches = (select: (selector: string) => cheerio.Cheerio, selectorList: string | undefined): SelectorMatches[] => {
+  return splitSelectors(selectorList).map(selector => {
+    try {
+      return { selector, matches: select(selector).length };
+    } catch (error) {
+      return { selector, matches: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+};
+
+// Runs the same engine as extractItemsFromHtml and records what happened to each container
+export const explainExtraction = (html: string, url: string, config: SiteConfig, sampleSize: number = 3): HtmlExtraction & { debug: ExtractionDebug } => {
+  const $ = cheerio.load(html);
+  const structured = extractStructuredItems(html, url, config);
+  const samples: string[] = [];
+  const rejected: RejectedContainer[] = [];
+  const indexes: { [selector: string]: number } = {};
+
+  const extraction = extractFromContainers($, url, config, (selector, element, outcome) => {
+    const index = indexes[selector] = (indexes[selector] ?? -1) + 1;
+    if (samples.length < sampleSize) samples.push(($.html(element) || '').substring(0, MAX_SAMPLE_LENGTH));
+    if (!outcome.item && rejected.length < MAX_REJECTED) rejected.push({ selector, index, reason: outcome.reason });
+  });
+
+  let containers: cheerio.Cheerio | null = null;
+  try {
+    containers = extraction.selector ? $(extraction.selector) : null;
+  } catch {
+    // Already reported by the container counts
+  }
+  const inContainers = (selector: string) => containers ? containers.find(selector) : $(selector);
+
+  const debug: ExtractionDebug = {
+    structuredItems: structured.length,
+    container: extraction.selector,
+    containers: extraction.containers,
+    candidates: extraction.candidates,
+    selectors: {
+      container: countMatches(selector => $(selector), config.selectors.container),
+      title: countMatches(inContainers, config.selectors.title),
+      price: countMatches(inContainers, config.selectors.price),
+      originalPrice: countMatches(inContainers, config.selectors.originalPrice)
+    },
+    samples,
+    rejected
+  };
+
+  // Structured data wins in the real engine too
+  const items = structured.length > 0 ? structured : extraction.items;
+  return { items, containers: extraction.containers, candidates: extraction.candidates, debug };
+};
@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { ScrapingResult, SiteConfig } from '../types';
+import { extractDomain } from '../utils/helpers';
+import { PageSignals, classifyFailure } from '../utils/failure-classifier';
+import { FingerprintProfile, fingerprintProfiles, toAcceptLanguage } from './fingerprint-profiles';
+import { detectChallenge } from './html-extractor';
+import { collectHtmlPages } from './pagination';
+import { ProxyEndpoint, createProxyAgents } from './proxy-pool';
+
+// Cheapest strategy: one GET, no JavaScript. Works for server-rendered listings only.
+export class HttpScraper {
+  private config: SiteConfig;
+  private timeout: number = Number(process.env.HTTP_SCRAPER_TIMEOUT) || 20000;
+
+  constructor(config: SiteConfig) {
+    this.config = config;
+  }
+
+  async scrapeUrl(url: string, proxy: ProxyEndpoint | null = null, keepHtml: boolean = false): Promise<ScrapingResult> {
+    const startTime = Date.now();
+    const domain = extractDomain(url);
+    const profile = fingerprintProfiles.getProfile(domain);
+    let statusCode: number | undefined;
+    let signals: PageSignals = {};
+
+    console.log(`📄 Fetching ${url} over plain HTTP...`);
+
+    try {
+      const response = await this.fetchPage(url, profile, proxy);
+      statusCode = response.statusCode;
+      const html = response.html;
+      signals = { html };
+
+      const challengeTitle = detectChallenge(html);
+      if (challengeTitle) {
+        throw new Error(`Bot challenge page detected: "${challengeTitle}"`);
+      }
+      if (statusCode >= 400) {
+        throw new Error(`HTTP ${statusCode}`);
+      }
+
+      const { items, containers, candidates } = await collectHtmlPages(url, html, this.config, async pageUrl => {
+        const next = await this.fetchPage(pageUrl, profile, proxy);
+        const nextChallenge = detectChallenge(next.html);
+        if (nextChallenge) throw new Error(`Bot challenge page detected: "${nextChallenge}"`);
+        if (next.statusCode >= 400) throw new Error(`HTTP ${next.statusCode}`);
+        return next.html;
+      });
+      return {
+        success: items.length > 0,
+        url,
+        items,
+        error: items.length === 0 ? 'No items found with plain HTTP' : undefined,
+        failure: items.length === 0 ? classifyFailure(undefined, { statusCode, html, containers, candidates }) : undefined,
+        statusCode,
+        html: keepHtml ? html : undefined,
+        responseTime: Date.now() - startTime,
+        siteName: domain
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown HTTP error';
+      return {
+        success: false,
+        url,
+        items: [],
+        error: message,
+        failure: classifyFailure(message, { ...signals, statusCode }),
+        statusCode,
+        html: keepHtml ? signals.html : undefined,
+        responseTime: Date.now() - startTime,
+        siteName: domain
+      };
+    }
+  }
+
+  private async fetchPage(url: string, profile: FingerprintProfile, proxy: ProxyEndpoint | null): Promise<{ statusCode: number; html: string }> {
+    const response = await axios.get<string>(url, {
+      timeout: this.timeout,
+      responseType: 'text',
+      maxRedirects: 5,
+      validateStatus: () => true,
+      ...(proxy ? { ...createProxyAgents(proxy), proxy: false as const } : {}),
+      headers: {
+        'User-Agent': profile.userAgent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': toAcceptLanguage(profile.languages),
+        'Cache-Control': 'max-age=0',
+        'Upgrade-Insecure-Requests': '1'
+      }
+    });
+
+    return {
+      statusCode: response.status,
+      html: typeof response.data === 'string' ? response.data : String(response.data)
+    };
+  }
+}
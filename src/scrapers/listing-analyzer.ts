@@ -0,0 +1,248 @@
+import * as cheerio from 'cheerio';
+
+// "49,90 TL", "₺1.299", "$4.99", "12 USD" - an amount with a currency on either side
+export const PRICE_PATTERN = /(?:₺|\$|€)\s*\d[\d.,]*|\d[\d.,]*\s*(?:₺|TL|TRY|USD|EUR|\$|€)(?![A-Za-zÇĞİÖŞÜçğıöşü])/i;
+
+// Class/style hints of a struck-through "was" price
+export const OLD_PRICE_HINT = /(^|[\s_-])(old|eski|original|strike|was|before)([\s_-]|price|$)|line-through/i;
+
+const SKIPPED_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'head', 'select', 'option', 'button'];
+const MAX_PRICE_LENGTH = 40;     // Longer texts mention a price, they aren't one
+const MIN_PRICE_SHARE = 0.4;     // Part of a price element's text the amount and currency take up
+const MIN_REPEAT = 3;            // Sibling blocks needed before a group looks like a listing
+const MAX_ANCESTORS = 8;         // How far above a price a card may start
+
+type Element = cheerio.TagElement;
+
+export interface RepeatedBlocks {
+  selector: string;              // Matches the blocks, ideally nothing else on the page
+  signature: string;             // "div.row > div.product-card"
+  blocks: Element[];
+  total: number;                 // Blocks with this signature, priced or not
+  priced: number;
+  pricesPerBlock: number;
+  score: number;
+}
+
+// Class names generated by CSS modules / CSS-in-JS change with every deploy and make poor selectors
+// (as do state classes, which differ between otherwise identical siblings)
+export const isStableClass = (name: string): boolean =>
+  /^[a-z_-][a-z0-9_-]{1,39}$/i.test(name) &&
+  !/^(css|sc|jsx|emotion|styled|svelte)-|__[a-z0-9]{5,}$|(?=[0-9a-f]*\d)[0-9a-f]{6,}/i.test(name) &&
+  !/^(active|selected|show|hidden|d-none|disabled)$/i.test(name);
+
+const stableClasses = (element: Element): string[] =>
+  (element.attribs?.class || '').split(/\s+/).filter(isStableClass).sort();
+
+// Tag plus its stable classes: "div.product-card.sale"
+export const describeElement = (element: Element): string => {
+  const classes = stableClasses(element);
+  return `${element.tagName}${classes.map(name => `.${name}`).join('')}`;
+};
+
+const parentOf = (element: Element): Element | null => {
+  const parent = element.parent as Element;
+  return parent && parent.type === 'tag' ? parent : null;
+};
+
+const isSkipped = (element: Element): boolean => SKIPPED_TAGS.includes(element.tagName);
+
+export const contains = (ancestor: Element, element: Element): boolean => {
+  for (let current = element; current; current = current.parent as Element) {
+    if (current === ancestor) return true;
+  }
+  return false;
+};
+
+// Struck-through prices are the "was" price, not the one to scrape
+export const isOldPrice = (element: Element, block: Element): boolean => {
+  for (let current = element; current && current !== block; current = current.parent as Element) {
+    if (['del', 's', 'strike'].includes(current.tagName)) return true;
+    if (OLD_PRICE_HINT.test(`${current.attribs?.class || ''} ${current.attribs?.style || ''}`)) return true;
+  }
+  return false;
+};
+
+// The deepest elements whose whole text is a price, in document order
+export const findPriceElements = ($: cheerio.Root, root?: cheerio.Cheerio): Element[] => {
+  const prices: Element[] = [];
+  const scope = root ? root.find('*') : $('body *');
+
+  scope.each((_, el) => {
+    const element = el as Element;
+    if (element.type !== 'tag' || isSkipped(element)) return;
+
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (!text || text.length > MAX_PRICE_LENGTH) return;
+
+    // "Fiyat: 49,90 TL" is a price, "Steam 10 USD Wallet" is a product name
+    const match = text.match(PRICE_PATTERN);
+    if (!match || match[0].length < text.length * MIN_PRICE_SHARE) return;
+
+    // A parent whose text is the same price is dropped for its child
+    const parent = parentOf(element);
+    if (parent && prices[prices.length - 1] === parent) prices.pop();
+    prices.push(element);
+  });
+
+  return prices;
+};
+
+// Text of an element without the prices in it, to tell product cards from bare price tags
+const nonPriceText = ($: cheerio.Root, element: Element): string =>
+  $(element).text().replace(new RegExp(PRICE_PATTERN.source, 'gi'), ' ').replace(/\s+/g, ' ').trim();
+
+const compactText = ($: cheerio.Root, element: Element): string => $(element).text().replace(/\s+/g, '');
+
+// Layout wrappers (Bootstrap's div.col-md-3 around a div.card) repeat as siblings while the card inside
+// them doesn't; the card is the innermost element that still holds everything the wrapper shows
+const innermostCard = ($: cheerio.Root, block: Element): Element => {
+  let element = block;
+  while (true) {
+    const children = (element.children || []).filter(child => child.type === 'tag' && !isSkipped(child as Element)) as Element[];
+    if (children.length !== 1 || compactText($, children[0]) !== compactText($, element)) return element;
+    element = children[0];
+  }
+};
+
+// The block's own selector when it doesn't match much else, "parent > block" otherwise
+const buildSelector = ($: cheerio.Root, blocks: Element[], signature: string): string | null => {
+  const ownSelector = signature.split(' > ')[1];
+  const forms = ownSelector.includes('.') ? [ownSelector, signature] : [signature];
+
+  const counts = forms.map(selector => {
+    try {
+      return $(selector).length;
+    } catch {
+      return Infinity;   // Unusual class characters
+    }
+  });
+
+  const precise = forms.find((_, i) => counts[i] <= blocks.length * 1.5);
+  if (precise) return precise;
+  return counts[counts.length - 1] <= blocks.length * 3 ? signature : null;
+};
+
+// Repeated sibling blocks that carry a price, best candidates first. Blocks are grouped by their own
+// signature and their parent's, so a grid split into rows still counts as one listing.
+export const findRepeatedBlocks = ($: cheerio.Root): RepeatedBlocks[] => {
+  const prices = findPriceElements($);
+  const groups: Map<string, { blocks: Set<Element>; prices: number }> = new Map();
+
+  for (const price of prices) {
+    const seen = new Set<string>();
+    let element: Element | null = price;
+
+    for (let depth = 0; element && depth < MAX_ANCESTORS; depth++) {
+      const parent = parentOf(element);
+      if (!parent || ['html', 'body'].includes(element.tagName)) break;
+
+      const signature = `${describeElement(parent)} > ${describeElement(element)}`;
+      if (!seen.has(signature)) {
+        seen.add(signature);
+        const group = groups.get(signature) || { blocks: new Set<Element>(), prices: 0 };
+        group.blocks.add(element);
+        group.prices++;
+        groups.set(signature, group);
+      }
+      element = parent;
+    }
+  }
+
+  const candidates: RepeatedBlocks[] = [];
+  for (const [groupSignature, group] of groups) {
+    let signature = groupSignature;
+    let blocks = [...group.blocks].filter(block => /\p{L}{3,}/u.test(nonPriceText($, block)));
+    if (blocks.length < MIN_REPEAT) continue;
+
+    // Siblings, not one wrapper per card: the part of a card that holds its price repeats too, once per card
+    const parents = new Set(blocks.map(parentOf));
+    if (blocks.length / parents.size < 2) continue;
+
+    // Narrowed to the cards inside layout wrappers when every block wraps the same kind of card
+    const cards = blocks.map(block => innermostCard($, block));
+    const cardSignatures = new Set(cards.map(card => `${describeElement(parentOf(card))} > ${describeElement(card)}`));
+    if (cards.every((card, i) => card !== blocks[i]) && cardSignatures.size === 1) {
+      blocks = cards;
+      signature = [...cardSignatures][0];
+    }
+
+    const selector = buildSelector($, blocks, signature);
+    if (!selector) continue;
+
+    const total = $(selector).length;
+    const pricesPerBlock = group.prices / group.blocks.size;
+    // Many priced blocks, few unpriced lookalikes, and one or two prices per block (price + old price);
+    // a wrapper holding several cards repeats less and carries more prices, so the card itself wins
+    const coverage = blocks.length / Math.max(total, blocks.length);
+    const score = blocks.length * coverage / Math.max(1, pricesPerBlock / 2);
+
+    candidates.push({ selector, signature, blocks, total, priced: blocks.length, pricesPerBlock, score });
+  }
+
+  // A narrowed group can land on the same cards as another one; the better scored copy stays
+  const selectors = new Set<string>();
+  return candidates
+    .sort((a, b) => b.score - a.score || a.pricesPerBlock - b.pricesPerBlock)
+    .filter(candidate => !selectors.has(candidate.selector) && !!selectors.add(candidate.selector));
+};
+
+export interface ProductBlock {
+  element: Element;
+  title: string;
+  price: string;
+  originalPrice?: string;
+}
+
+const clean = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+export const isTitleText = (text: string): boolean =>
+  text.length > 3 && text.length <= 150 && /\p{L}{3,}/u.test(text.replace(new RegExp(PRICE_PATTERN.source, 'gi'), ''));
+
+// Headings first, then title/name classes, then links; a card's own title attribute as a last resort
+const TITLE_SOURCES = ['h1, h2, h3, h4, h5, h6', '[class*="title"], [class*="name"], [class*="baslik"]', 'a'];
+
+// Text of the heading or link closest to the price, looking in ever wider ancestors up to the card
+const nearestTitle = ($: cheerio.Root, price: Element, block: Element): string => {
+  for (let scope = parentOf(price); scope; scope = parentOf(scope)) {
+    for (const selector of TITLE_SOURCES) {
+      for (const element of $(scope).find(selector).toArray() as Element[]) {
+        if (contains(element, price)) continue;
+        const text = clean($(element).text()) || clean(element.attribs?.title || '');
+        if (isTitleText(text)) return text;
+      }
+    }
+    if (scope === block) break;
+  }
+
+  return clean(block.attribs?.title || '');
+};
+
+// Product cards of a page nobody wrote selectors for: the best repeated priced block group, with blocks
+// nested inside another match dropped for the innermost one
+export const findProductBlocks = ($: cheerio.Root): { products: ProductBlock[]; containers: number } => {
+  const best = findRepeatedBlocks($)[0];
+  if (!best) return { products: [], containers: 0 };
+
+  const blocks = best.blocks.filter(block => !best.blocks.some(other => other !== block && contains(block, other)));
+  const products: ProductBlock[] = [];
+
+  for (const element of blocks) {
+    const prices = findPriceElements($, $(element));
+    const price = prices.find(candidate => !isOldPrice(candidate, element));
+    if (!price) continue;
+
+    const title = nearestTitle($, price, element);
+    if (!isTitleText(title)) continue;
+
+    const oldPrice = prices.find(candidate => isOldPrice(candidate, element));
+    products.push({
+      element,
+      title,
+      price: clean($(price).text()),
+      originalPrice: oldPrice ? clean($(oldPrice).text()) : undefined
+    });
+  }
+
+  return { products, containers: blocks.length };
+};
@@ -0,0 +1,104 @@
+import * as cheerio from 'cheerio';
+import { PaginationConfig, ScrapedItem, SiteConfig } from '../types';
+import { sleep } from '../utils/helpers';
+import { toSearchKey } from '../utils/text-normalizer';
+import { HtmlExtraction, extractItemsFromHtml } from './html-extractor';
+
+export const DEFAULT_MAX_PAGES = 5;
+
+export const getMaxPages = (pagination: PaginationConfig): number => {
+  return Math.max(1, pagination.maxPages || DEFAULT_MAX_PAGES);
+};
+
+export const getPageDelay = (config: SiteConfig): number => {
+  return config.pagination?.delay ?? config.delay ?? 1000;
+};
+
+// "{url}?page={page}" on a listing URL that already has a query string continues it with "&"
+export const resolvePageUrl = (listingUrl: string, template: string, page: number): string => {
+  const base = listingUrl.split('#')[0];
+  let resolved = template.replace('{page}', String(page));
+  if (resolved.includes('{url}')) {
+    const [before, after] = resolved.split('{url}');
+    resolved = before + base + (base.includes('?') && after.startsWith('?') ? '&' + after.substring(1) : after);
+  }
+  return new URL(resolved, base).toString();
+};
+
+export const findNextPageUrl = (html: string, currentUrl: string, selector: string): string | null => {
+  const href = cheerio.load(html)(selector).first().attr('href');
+  if (!href || href.startsWith('#') || href.startsWith('javascript:')) return null;
+  try {
+    return new URL(href, currentUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+// The same product on two pages (or a site serving page 1 again past the end) counts once
+const itemKey = (item: ScrapedItem): string => `${toSearchKey(item.title)}|${item.price}`;
+
+// Appends the items of a later page that aren't known yet; returns how many were new
+export const mergePageItems = (items: ScrapedItem[], seen: Set<string>, pageItems: ScrapedItem[]): number => {
+  let added = 0;
+  for (const item of pageItems) {
+    const key = itemKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    items.push(item);
+    added++;
+  }
+  return added;
+};
+
+// Extracts the first page and follows next-link / url-template pagination through fetchPage.
+// A page that fails to load or adds nothing new ends the walk; what was collected so far is kept.
+export const collectHtmlPages = async (
+  url: string,
+  html: string,
+  config: SiteConfig,
+  fetchPage: (pageUrl: string) => Promise<string>
+): Promise<HtmlExtraction & { pages: number }> => {
+  const first = extractItemsFromHtml(html, url, config);
+  const pagination = config.pagination;
+  const followable = pagination && (
+    (pagination.type === 'next-link' && pagination.nextSelector) ||
+    (pagination.type === 'url-template' && pagination.urlTemplate)
+  );
+  if (!followable || first.items.length === 0) return { ...first, pages: 1 };
+
+  const items = [...first.items];
+  const seen = new Set(items.map(itemKey));
+  const visited = new Set([url]);
+  let { containers, candidates } = first;
+  let currentUrl = url;
+  let currentHtml = html;
+  let pages = 1;
+
+  while (pages < getMaxPages(pagination)) {
+    const nextUrl = pagination.type === 'next-link'
+      ? findNextPageUrl(currentHtml, currentUrl, pagination.nextSelector)
+      : resolvePageUrl(url, pagination.urlTemplate, pages + 1);
+    if (!nextUrl || visited.has(nextUrl)) break;
+    visited.add(nextUrl);
+
+    await sleep(getPageDelay(config));
+    try {
+      currentHtml = await fetchPage(nextUrl);
+    } catch (error) {
+      console.warn(`⚠️ Stopped paginating ${url} at ${nextUrl}: ${error instanceof Error ? error.message : error}`);
+      break;
+    }
+    currentUrl = nextUrl;
+
+    // Items keep the listing URL so every page of a category lands on the same product rows
+    const page = extractItemsFromHtml(currentHtml, url, config);
+    containers += page.containers;
+    candidates += page.candidates;
+    if (mergePageItems(items, seen, page.items) === 0) break;
+    pages++;
+  }
+
+  if (pages > 1) console.log(`📑 ${url} - ${items.length} items across ${pages} pages`);
+  return { items, containers, candidates, pages };
+};
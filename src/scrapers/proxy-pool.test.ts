@@ -0,0 +1,194 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpOrchestrator } from '../http-orchestrator';
+import { SiteConfig } from '../types';
+import { proxyPool } from './proxy-pool';
+
+// Stand-in for an HTTP proxy: answers the absolute-URI requests HttpProxyAgent sends instead of forwarding
+// them, so the target hosts never have to exist. How it answers depends on the target host.
+interface StandIn {
+  name: string;
+  url: string;
+  hosts: string[];
+  server: http.Server;
+}
+
+const LISTING = `<html><head><title>Robux</title></head><body>
+  <div class="product"><h3>Roblox 400 Robux</h3><span class="price">99,90 TL</span></div>
+  <div class="product"><h3>Roblox 800 Robux</h3><span class="price">189,90 TL</span></div>
+</body></html>`;
+
+const config: SiteConfig = {
+  name: 'Test',
+  domain: 'test',
+  selectors: { container: '.product', title: 'h3', price: '.price' }
+};
+
+const answer = (host: string, res: http.ServerResponse): void => {
+  if (host.startsWith('blocked') || host.startsWith('pinned')) {
+    res.writeHead(403, { 'Content-Type': 'text/html' });
+    res.end('<html><body>Forbidden</body></html>');
+  } else if (host.startsWith('slow')) {
+    // Never answers - the scraper's timeout fires first
+  } else {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(LISTING);
+  }
+};
+
+const startServer = (handler: http.RequestListener): Promise<http.Server> => new Promise(resolve => {
+  const server = http.createServer(handler);
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+const startProxy = async (name: string): Promise<StandIn> => {
+  const standIn: StandIn = { name, url: '', hosts: [], server: null };
+  standIn.server = await startServer((req, res) => {
+    const host = new URL(req.url).hostname;
+    standIn.hosts.push(host);
+    answer(host, res);
+  });
+  standIn.url = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+  return standIn;
+};
+
+const stopServer = (server: http.Server): Promise<void> => new Promise(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+});
+
+describe('proxy pool through HttpScraper', () => {
+  const orchestrator = new HttpOrchestrator('http://127.0.0.1:9/webhook');
+  let first: StandIn;
+  let second: StandIn;
+  let target: http.Server;
+  let targetHits = 0;
+  let run = 0;
+
+  // Fresh proxy ids per test, so health and benches from an earlier test don't carry over
+  const usePool = (): { a: string; b: string } => {
+    run++;
+    const ids = { a: `a${run}`, b: `b${run}` };
+    proxyPool.load({
+      proxies: [{ id: ids.a, url: first.url }, { id: ids.b, url: second.url }],
+      rules: [
+        { domain: 'pinned.test', proxies: [ids.a] },
+        { domain: '127.0.0.1', direct: true }
+      ]
+    });
+    first.hosts = [];
+    second.hosts = [];
+    return ids;
+  };
+
+  // The batch path; trials through testScrape leave proxy health alone
+  const scrape = (url: string) => orchestrator['scrapeOnce'](url, config, 'http');
+  const statusOf = (id: string) => proxyPool.getStatus().find(proxy => proxy.id === id);
+  const standInOf = (id: string) => id.startsWith('a') ? first : second;
+
+  before(async () => {
+    // Scrape logs would interleave with the test runner's output
+    for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => undefined);
+    process.env.HTTP_SCRAPER_TIMEOUT = '300';
+    first = await startProxy('first');
+    second = await startProxy('second');
+    target = await startServer((req, res) => {
+      targetHits++;
+      answer('direct', res);
+    });
+  });
+
+  after(async () => {
+    proxyPool.load({ proxies: [] });
+    mock.restoreAll();
+    await Promise.all([stopServer(first.server), stopServer(second.server), stopServer(target)]);
+  });
+
+  test('keeps a domain on one proxy and spreads domains across proxies', async () => {
+    usePool();
+
+    const one = await scrape('http://shop-one.test/robux');
+    const again = await scrape('http://shop-one.test/robux?page=2');
+    const other = await scrape('http://shop-two.test/robux');
+
+    assert.equal(one.success, true);
+    assert.equal(one.items.length, 2);
+    assert.equal(again.proxy, one.proxy);
+    assert.notEqual(other.proxy, one.proxy);
+    assert.deepEqual(standInOf(one.proxy).hosts, ['shop-one.test', 'shop-one.test']);
+    assert.deepEqual(standInOf(other.proxy).hosts, ['shop-two.test']);
+    assert.deepEqual(statusOf(one.proxy).domains, ['shop-one.test']);
+  });
+
+  test('benches a proxy after a block and moves the domain to another one', async () => {
+    usePool();
+
+    const blocked = await scrape('http://blocked.test/robux');
+    assert.equal(blocked.success, false);
+    assert.equal(blocked.statusCode, 403);
+    assert.equal(statusOf(blocked.proxy).benched, true);
+    assert.equal(statusOf(blocked.proxy).benchCount, 1);
+
+    const retried = await scrape('http://blocked.test/robux');
+    assert.ok(retried.proxy);
+    assert.notEqual(retried.proxy, blocked.proxy);
+  });
+
+  test('benches a proxy only after repeated timeouts', async () => {
+    usePool();
+
+    const timedOut = await scrape('http://slow.test/robux');
+    assert.equal(timedOut.failure, 'navigation_timeout');
+    assert.equal(statusOf(timedOut.proxy).benched, false);
+    assert.equal(statusOf(timedOut.proxy).consecutiveFailures, 1);
+
+    const again = await scrape('http://slow.test/robux');
+    assert.equal(again.proxy, timedOut.proxy);
+    assert.equal(statusOf(timedOut.proxy).benched, true);
+    assert.match(statusOf(timedOut.proxy).lastError, /timeout/);
+
+    const moved = await scrape('http://slow.test/robux');
+    assert.notEqual(moved.proxy, timedOut.proxy);
+  });
+
+  test('doubles the bench time with every bench', async () => {
+    const { a } = usePool();
+    const benchTimes: number[] = [];
+
+    // pinned.test may only use proxy a, so it keeps going through a while a is benched
+    for (let i = 0; i < 3; i++) {
+      const result = await scrape('http://pinned.test/robux');
+      assert.equal(result.proxy, a);
+      benchTimes.push(statusOf(a).benchedUntil - Date.now());
+    }
+
+    assert.equal(statusOf(a).benchCount, 3);
+    assert.ok(Math.abs(benchTimes[1] / benchTimes[0] - 2) < 0.01, `bench times ${benchTimes.join(', ')}`);
+    assert.ok(Math.abs(benchTimes[2] / benchTimes[0] - 4) < 0.01, `bench times ${benchTimes.join(', ')}`);
+  });
+
+  test('leaves proxy health alone for trial scrapes', async () => {
+    usePool();
+
+    const trial = await orchestrator.testScrape('http://blocked.test/robux', config, 'http');
+
+    assert.equal(trial.statusCode, 403);
+    assert.ok(trial.proxy);
+    assert.equal(statusOf(trial.proxy).benched, false);
+    assert.equal(statusOf(trial.proxy).failures, 0);
+  });
+
+  test('reports no proxy for domains that go direct', async () => {
+    usePool();
+    const port = (target.address() as AddressInfo).port;
+
+    const result = await scrape(`http://127.0.0.1:${port}/robux`);
+
+    assert.equal(result.success, true);
+    assert.equal(result.proxy, undefined);
+    assert.equal(targetHits, 1);
+    assert.deepEqual([...first.hosts, ...second.hosts], []);
+  });
+});
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { ScrapingResult } from '../types';
+import { failureOf } from '../utils/failure-classifier';
+
+export interface ProxyEndpoint {
+  id: string;
+  url: string;
+  tags: string[];
+}
+
+// First matching rule wins; "*.example.com" matches subdomains, "*" matches everything
+export interface ProxyRule {
+  domain: string;
+  proxies?: string[];
+  tags?: string[];
+  direct?: boolean;
+}
+
+export interface ProxyPoolConfig {
+  proxies: (string | { id?: string; url: string; tags?: string[] })[];
+  rules?: ProxyRule[];
+}
+
+export type ProxyFailure = 'block' | 'timeout' | 'error';
+
+interface ProxyHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  benchCount: number;
+  benchedUntil: number;
+  lastError: string | null;
+}
+
+export interface ProxyStatus extends ProxyHealth {
+  id: string;
+  server: string;
+  tags: string[];
+  benched: boolean;
+  domains: string[];
+}
+
+const MAX_BENCH_TIME = 60 * 60 * 1000;
+
+export const parseProxyUrl = (url: string): { server: string; username?: string; password?: string } => {
+  const parsed = new URL(url);
+  return {
+    server: `${parsed.protocol}//${parsed.host}`,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined
+  };
+};
+
+// Agents for axios-based requests (plain HTTP fetches)
+export const createProxyAgents = (proxy: ProxyEndpoint) => ({
+  httpAgent: new HttpProxyAgent(proxy.url),
+  httpsAgent: new HttpsProxyAgent(proxy.url)
+});
+
+// Blocks burn a proxy immediately; timeouts and connection errors only after repeating
+export const classifyProxyFailure = (result: ScrapingResult): ProxyFailure | null => {
+  const failure = failureOf(result);
+  if (!failure) return null;
+
+  if (failure === 'bot_challenge' || result.statusCode === 403 || result.statusCode === 429) return 'block';
+  if (failure === 'navigation_timeout') return 'timeout';
+  if (failure === 'network_error') return 'error';
+
+  // Selector misses, empty listings and 404s say nothing about the proxy
+  return null;
+};
+
+export class ProxyPool {
+  private proxies: ProxyEndpoint[] = [];
+  private rules: ProxyRule[] = [];
+  private health: Map<string, ProxyHealth> = new Map();
+  private assignments: Map<string, string> = new Map();
+  private benchTime: number;
+  private maxFailures: number;
+
+  constructor(config: ProxyPoolConfig = { proxies: [] }, benchTime: number = 300000, maxFailures: number = 2) {
+    this.benchTime = benchTime;
+    this.maxFailures = maxFailures;
+    this.load(config);
+  }
+
+  // PROXY_FILE is either JSON ({ proxies, rules }) or one proxy URL per line; PROXY_LIST is comma separated
+  static fromEnvironment(): ProxyPool {
+    const config: ProxyPoolConfig = { proxies: [], rules: [] };
+
+    if (process.env.PROXY_FILE) {
+      try {
+        const content = fs.readFileSync(process.env.PROXY_FILE, 'utf-8');
+        if (content.trim().startsWith('{')) {
+          const parsed = JSON.parse(content) as ProxyPoolConfig;
+          config.proxies.push(...(parsed.proxies || []));
+          config.rules.push(...(parsed.rules || []));
+        } else {
+          config.proxies.push(...content.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+        }
+      } catch (error) {
+        console.error(`❌ Failed to load proxies from ${process.env.PROXY_FILE}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (process.env.PROXY_LIST) {
+      config.proxies.push(...process.env.PROXY_LIST.split(',').map(url => url.trim()).filter(Boolean));
+    }
+
+    return new ProxyPool(
+      config,
+      Number(process.env.PROXY_BENCH_TIME) || 300000,
+      Number(process.env.PROXY_MAX_FAILURES) || 2
+    );
+  }
+
+  load(config: ProxyPoolConfig): void {
+    this.proxies = [];
+    for (const entry of config.proxies) {
+      const { id, url, tags } = typeof entry === 'string' ? { id: undefined, url: entry, tags: [] } : entry;
+      try {
+        const parsed = new URL(url);
+        const proxy = { id: id || parsed.host, url, tags: tags || [] };
+        if (this.proxies.some(p => p.id === proxy.id)) continue;
+        this.proxies.push(proxy);
+      } catch {
+        console.warn(`⚠️ Ignoring invalid proxy URL: ${url.replace(/\/\/[^@/]*@/, '//***@')}`);
+      }
+    }
+
+    this.rules = config.rules || [];
+    this.assignments.clear();
+    if (this.proxies.length > 0) {
+      console.log(`🧦 Proxy pool: ${this.proxies.length} proxies, ${this.rules.length} rules`);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.proxies.length > 0;
+  }
+
+  // Sticky per domain while the proxy stays healthy, like the fingerprint profile
+  assign(domain: string): ProxyEndpoint | null {
+    const candidates = this.candidatesFor(domain);
+    if (candidates.length === 0) return null;
+
+    const now = Date.now();
+    const current = candidates.find(proxy => proxy.id === this.assignments.get(domain));
+    if (current && this.getHealth(current.id).benchedUntil <= now) return current;
+
+    const available = candidates.filter(proxy => this.getHealth(proxy.id).benchedUntil <= now);
+    let chosen: ProxyEndpoint;
+    if (available.length > 0) {
+      // Spread domains: least assigned first
+      const load = (proxy: ProxyEndpoint) => Array.from(this.assignments.values()).filter(id => id === proxy.id).length;
+      chosen = available.sort((a, b) => load(a) - load(b))[0];
+    } else {
+      chosen = candidates.sort((a, b) => this.getHealth(a.id).benchedUntil - this.getHealth(b.id).benchedUntil)[0];
+      console.warn(`⚠️ All proxies for ${domain} are benched, using ${chosen.id} (back soonest)`);
+    }
+
+    this.assignments.set(domain, chosen.id);
+    return chosen;
+  }
+
+  reportSuccess(proxy: ProxyEndpoint): void {
+    const health = this.getHealth(proxy.id);
+    health.successes++;
+    health.consecutiveFailures = 0;
+  }
+
+  reportFailure(proxy: ProxyEndpoint, failure: ProxyFailure, error?: string): void {
+    const health = this.getHealth(proxy.id);
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error || failure;
+
+    if (failure === 'block' || health.consecutiveFailures >= this.maxFailures) {
+      health.benchCount++;
+      health.consecutiveFailures = 0;
+      const duration = Math.min(MAX_BENCH_TIME, this.benchTime * Math.pow(2, health.benchCount - 1));
+      health.benchedUntil = Date.now() + duration;
+
+      // Domains on this proxy move to another one on their next request
+      for (const [domain, id] of this.assignments.entries()) {
+        if (id === proxy.id) this.assignments.delete(domain);
+      }
+      console.warn(`🪑 Benched proxy ${proxy.id} for ${Math.round(duration / 1000)}s (${failure}: ${health.lastError})`);
+    }
+  }
+
+  // Called at the start of a run; health and benches carry over between runs
+  resetAssignments(): void {
+    this.assignments.clear();
+  }
+
+  getStatus(): ProxyStatus[] {
+    const now = Date.now();
+    return this.proxies.map(proxy => {
+      const health = this.getHealth(proxy.id);
+      return {
+        id: proxy.id,
+        server: parseProxyUrl(proxy.url).server,
+        tags: proxy.tags,
+        ...health,
+        benched: health.benchedUntil > now,
+        domains: Array.from(this.assignments.entries()).filter(([, id]) => id === proxy.id).map(([domain]) => domain)
+      };
+    });
+  }
+
+  private candidatesFor(domain: string): ProxyEndpoint[] {
+    const rule = this.rules.find(r =>
+      r.domain === '*' ||
+      r.domain === domain ||
+      (r.domain.startsWith('*.') && domain.endsWith(r.domain.substring(1)))
+    );
+
+    if (!rule) return this.proxies;
+    if (rule.direct) return [];
+
+    return this.proxies.filter(proxy =>
+      (!rule.proxies || rule.proxies.includes(proxy.id)) &&
+      (!rule.tags || rule.tags.some(tag => proxy.tags.includes(tag)))
+    );
+  }
+
+  private getHealth(id: string): ProxyHealth {
+    let health = this.health.get(id);
+    if (!health) {
+      health = { successes: 0, failures: 0, consecutiveFailures: 0, benchCount: 0, benchedUntil: 0, lastError: null };
+      this.health.set(id, health);
+    }
+    return health;
+  }
+}
+
+export const proxyPool = ProxyPool.fromEnvironment();
@@ -1,65 +1,47 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { HTTPResponse, Page } from 'puppeteer';
 import { ScrapedItem, ScrapingResult, SiteConfig } from '../types';
-import { 
-  extractDomain, 
-  extractGameSlug, 
-  parsePrice, 
-  detectRegion, 
-  isValidPrice,
-  sanitizeText 
-} from '../utils/helpers';
+import { extractDomain, isChallengeTitle } from '../utils/helpers';
+import { PageSignals, classifyFailure } from '../utils/failure-classifier';
+import { BrowserPool, browserPool } from './browser-pool';
+import { blockResources, resolveBrowserConfig, runBrowserActions } from './browser-actions';
+import { extractItemsFromHtml } from './html-extractor';
+import { extractItemsFromJson } from './structured-data';
+import { FingerprintProfile, fingerprintProfiles } from './fingerprint-profiles';
+import { getMaxPages, getPageDelay, mergePageItems, resolvePageUrl } from './pagination';
+import { ProxyEndpoint } from './proxy-pool';
+
+interface PageExtraction {
+  items: ScrapedItem[];
+  containers?: number;
+  candidates?: number;
+}
 
 export class PuppeteerScraper {
   private config: SiteConfig;
-  private browser: Browser | null = null;
+  private pool: BrowserPool;
 
-  constructor(config: SiteConfig) {
+  constructor(config: SiteConfig, pool: BrowserPool = browserPool) {
     this.config = config;
+    this.pool = pool;
   }
 
-  async scrapeUrl(url: string): Promise<ScrapingResult> {
+  async scrapeUrl(url: string, proxy: ProxyEndpoint | null = null, keepHtml: boolean = false): Promise<ScrapingResult> {
     const startTime = Date.now();
     const domain = extractDomain(url);
     
     console.log(`🎭 Scraping ${url}...`);
     
     let page: Page | null = null;
+    let profile: FingerprintProfile | null = null;
+    let statusCode: number | undefined;
+    let signals: PageSignals = {};
     
     try {
-      // Launch browser if not already launched  
-      if (!this.browser) {
-        this.browser = await puppeteer.launch({
-          headless: 'new',
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox', 
-            '--disable-dev-shm-usage',
-            '--disable-web-security',
-            '--disable-features=VizDisplayCompositor',
-            '--disable-background-timer-throttling',
-            '--disable-backgrounding-occluded-windows',
-            '--disable-renderer-backgrounding',
-            '--no-first-run',
-            '--disable-gpu',
-            '--disable-software-rasterizer',
-            '--ignore-certificate-errors',
-            '--ignore-ssl-errors',
-            '--ignore-certificate-errors-spki-list'
-          ],
-          defaultViewport: { width: 1366, height: 768 },
-          timeout: 30000
-        });
-      }
-
-      page = await this.browser.newPage();
+      page = await this.pool.acquire(proxy);
       
-      // Set viewport and user agent - make it look more like a real browser
-      await page.setViewport({ width: 1920, height: 1080 });
-      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
-      
-      // Set extra headers to mimic real browser
-      await page.setExtraHTTPHeaders({
-        'Accept-Language': 'tr-TR,tr;q=0.9,en-US;q=0.8,en;q=0.7',
+      // Sticky per-domain fingerprint, including the cookies earlier URLs of this domain collected
+      profile = fingerprintProfiles.getProfile(domain);
+      await fingerprintProfiles.apply(page, profile, {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
         'Cache-Control': 'max-age=0',
         'Upgrade-Insecure-Requests': '1',
@@ -69,55 +51,41 @@ export class PuppeteerScraper {
         'Sec-Fetch-User': '?1'
       });
       
-      // Special handling for vatangame - allow all resources
-      if (url.includes('vatangame.com')) {
-        // Don't block anything for vatangame - needs CSS/images to load properly
-      } else {
-        // Disable images and stylesheets for other sites for faster loading
-        await page.setRequestInterception(true);
-        page.on('request', (req) => {
-          if(req.resourceType() == 'stylesheet' || req.resourceType() == 'image'){
-            req.abort();
-          } else {
-            req.continue();
-          }
-        });
-      }
+      const browser = resolveBrowserConfig(this.config.browser);
+      await blockResources(page, browser.blockResources);
+      const responses = this.captureResponses(page);
 
       // Navigate to URL with better error handling
+      let response: HTTPResponse | null;
       try {
-        if (url.includes('vatangame.com')) {
-          // Vatangame needs full page load with extended timeout
-          await page.goto(url, { 
-            waitUntil: 'load',
-            timeout: 30000
-          });
-        } else {
-          await page.goto(url, { 
-            waitUntil: 'networkidle2',
-            timeout: 20000
-          });
-        }
+        response = await page.goto(url, { 
+          waitUntil: browser.waitUntil,
+          timeout: browser.navigationTimeout
+        });
       } catch (navigationError) {
         // Fallback navigation strategy
         console.log(`⚠️ Primary navigation failed for ${url}, trying fallback...`);
-        await page.goto(url, { 
+        response = await page.goto(url, { 
           waitUntil: 'domcontentloaded', 
           timeout: 15000
         });
       }
-      
-      // Special handling for vatangame.com
-      if (url.includes('vatangame.com')) {
-        // Wait longer for JavaScript to load content
-        await page.waitForTimeout(8000);
-        
-        // Scroll to trigger any lazy loading
-        await page.evaluate(() => {
-          window.scrollTo(0, document.body.scrollHeight);
-        });
-        await page.waitForTimeout(3000);
+
+      statusCode = response ? response.status() : undefined;
+      const pageTitle = await page.title();
+      signals = { title: pageTitle };
+      if (isChallengeTitle(pageTitle)) {
+        // This fingerprint is flagged now; the retry gets a fresh one
+        fingerprintProfiles.rotate(domain);
+        profile = null;
+        throw new Error(`Bot challenge page detected: "${pageTitle}"`);
       }
+      if (statusCode !== undefined && statusCode >= 400) {
+        throw new Error(`HTTP ${statusCode}`);
+      }
+      
+      // Per-site steps: banners to dismiss, lazy content to scroll into view, extra render time
+      await runBrowserActions(page, browser.actions, url);
 
       // Wait for page content to load
       if (this.config.waitFor) {
@@ -131,165 +99,172 @@ export class PuppeteerScraper {
         await page.waitForTimeout(3000);
       }
       
-      // Extract items
-      const items = await this.extractItems(page, url);
-
-      await page.close();
+      // Extract items, growing or following the listing first when the site paginates
+      await this.expandListing(page, url);
+      const firstHtml = keepHtml ? await page.content().catch((): string => undefined) : undefined;
+      const { items, containers, candidates } = await this.followPages(page, url, await this.extractItems(page, url, responses), responses);
+      const html = items.length === 0 ? await page.content().catch(() => '') : '';
 
       return {
         success: items.length > 0,
         url,
         items,
         error: items.length === 0 ? 'No items found with Puppeteer' : undefined,
+        failure: items.length === 0 ? classifyFailure(undefined, { ...signals, statusCode, html, containers, candidates }) : undefined,
+        statusCode,
+        html: firstHtml,
         responseTime: Date.now() - startTime,
         siteName: domain
       };
 
     } catch (error) {
-      if (page) {
-        try {
-          await page.close();
-        } catch (closeError) {
-          // Ignore close errors
-        }
-      }
-
+      const message = error instanceof Error ? error.message : 'Unknown Puppeteer error';
       return {
         success: false,
         url,
         items: [],
-        error: error instanceof Error ? error.message : 'Unknown Puppeteer error',
+        error: message,
+        failure: classifyFailure(message, { ...signals, statusCode }),
+        statusCode,
         responseTime: Date.now() - startTime,
         siteName: domain
       };
+    } finally {
+      // The page goes back to the pool, which resets or discards it
+      if (page) {
+        if (profile) await fingerprintProfiles.saveCookies(page, profile);
+        await this.pool.release(page);
+      }
     }
   }
 
-  private async extractItems(page: Page, url: string): Promise<ScrapedItem[]> {
-    const domain = extractDomain(url);
-    
-    try {
-      const items = await page.evaluate((config, url, domain) => {
-        const results: any[] = [];
-        
-        // Helper functions (recreated in browser context)
-        const sanitizeText = (text: string): string => {
-          return text.replace(/\s+/g, ' ').trim().substring(0, 200);
-        };
+  // Load-more and infinite-scroll listings grow in place; they are extracted once, after they stop growing
+  private async expandListing(page: Page, url: string): Promise<void> {
+    const pagination = this.config.pagination;
+    if (!pagination) return;
+    if (pagination.type === 'load-more' ? !pagination.loadMoreSelector : pagination.type !== 'infinite-scroll') return;
 
-        const parsePrice = (priceText: string): { price: number; currency: string } => {
-          const numericPrice = parseFloat(priceText.replace(/[^\d.,]/g, '').replace(',', '.'));
-          const currency = priceText.toLowerCase().includes('usd') ? 'USD' :
-                          priceText.toLowerCase().includes('eur') ? 'EUR' : 'TRY';
-          return { price: numericPrice, currency };
-        };
+    const container = this.config.selectors.container;
+    const delay = getPageDelay(this.config);
+    let count = await page.$$eval(container, elements => elements.length).catch(() => 0);
+    let steps = 1;
 
-        const isValidPrice = (price: number): boolean => {
-          return !isNaN(price) && price > 0 && price < 1000000;
-        };
-
-        const detectRegion = (url: string, title: string): string => {
-          if (url.includes('global') || title.toLowerCase().includes('global')) return 'Global';
-          if (url.includes('eu') || url.includes('europe') || title.toLowerCase().includes('eu')) return 'EU';
-          if (url.includes('na') || url.includes('america') || title.toLowerCase().includes('na')) return 'US';
-          return 'TR';
-        };
+    while (steps < getMaxPages(pagination)) {
+      try {
+        if (pagination.type === 'load-more') {
+          const button = await page.$(pagination.loadMoreSelector);
+          if (!button) break;
+          await button.click();
+        } else {
+          await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        }
 
-        const extractGameSlug = (url: string, title: string): string => {
-          if (url.includes('pubg') || title.toLowerCase().includes('pubg')) return 'pubg';
-          if (url.includes('lol') || url.includes('legends') || title.toLowerCase().includes('legends')) return 'lol';
-          if (url.includes('valorant') || title.toLowerCase().includes('valorant')) return 'valorant';
-          if (url.includes('mobile-legends') || title.toLowerCase().includes('mobile legends')) return 'mobile-legends';
-          if (url.includes('fire') || title.toLowerCase().includes('fire')) return 'free-fire';
-          return 'unknown';
-        };
+        await page.waitForFunction(
+          (selector: string, previous: number) => document.querySelectorAll(selector).length > previous,
+          { timeout: Math.max(5000, delay * 3) },
+          container,
+          count
+        );
+      } catch {
+        // No button left, or the item count stabilized
+        break;
+      }
 
-        // Try multiple container selectors
-        const containerSelectors = config.selectors.container.split(', ');
-        
-        for (const containerSel of containerSelectors) {
-          const containers = document.querySelectorAll(containerSel);
-          
-          if (containers.length === 0) continue;
+      await page.waitForTimeout(delay);
+      count = await page.$$eval(container, elements => elements.length).catch(() => count);
+      steps++;
+    }
 
-          containers.forEach((container, index) => {
-            if (index > 50) return; // Limit to first 50
-            
-            try {
-              // Try configured selectors first
-              let title = '';
-              let priceText = '';
-              
-              const titleSelectors = config.selectors.title.split(', ');
-              for (const titleSel of titleSelectors) {
-                const titleEl = container.querySelector(titleSel);
-                if (titleEl && titleEl.textContent && titleEl.textContent.trim()) {
-                  title = titleEl.textContent.trim();
-                  break;
-                }
-              }
+    if (steps > 1) {
+      console.log(`📑 ${url} - ${count} containers after ${steps - 1} ${pagination.type === 'load-more' ? 'clicks' : 'scrolls'}`);
+    }
+  }
 
-              const priceSelectors = config.selectors.price.split(', ');
-              for (const priceSel of priceSelectors) {
-                const priceEl = container.querySelector(priceSel);
-                if (priceEl && priceEl.textContent && priceEl.textContent.trim()) {
-                  priceText = priceEl.textContent.trim();
-                  break;
-                }
-              }
+  // Next-link and url-template listings: later pages load in the same tab and are merged without duplicates
+  private async followPages(page: Page, url: string, first: PageExtraction, responses: Promise<unknown>[]): Promise<PageExtraction> {
+    const pagination = this.config.pagination;
+    const followable = pagination && (
+      (pagination.type === 'next-link' && pagination.nextSelector) ||
+      (pagination.type === 'url-template' && pagination.urlTemplate)
+    );
+    if (!followable || first.items.length === 0) return first;
 
-              // Fallback to text parsing if selectors don't work
-              if (!title || !priceText) {
-                const text = container.textContent || '';
-                const priceMatch = text.match(/(\d+(?:[.,]\d+)?)\s*(tl|₺|try|usd|eur)/i);
-                
-                if (priceMatch) {
-                  priceText = priceMatch[0];
-                  if (!title) {
-                    title = text.split(priceMatch[0])[0].trim().substring(0, 100);
-                  }
-                }
-              }
+    const browser = resolveBrowserConfig(this.config.browser);
+    const items: ScrapedItem[] = [];
+    const seen = new Set<string>();
+    mergePageItems(items, seen, first.items);
+    const visited = new Set([url.split('#')[0]]);
+    let containers = first.containers || 0;
+    let candidates = first.candidates || 0;
+    let pages = 1;
 
-              if (title && priceText && title.length > 3) {
-                const { price, currency } = parsePrice(priceText);
-                
-                if (isValidPrice(price)) {
-                  results.push({
-                    title: sanitizeText(title),
-                    price: priceText,
-                    currency,
-                    region: detectRegion(url, title),
-                    url,
-                    siteName: domain,
-                    gameSlug: extractGameSlug(url, title)
-                  });
-                }
-              }
-            } catch (error) {
-              // Ignore individual item errors
-            }
-          });
+    while (pages < getMaxPages(pagination)) {
+      const nextUrl = pagination.type === 'next-link'
+        ? await page.$eval(pagination.nextSelector, el => (el as HTMLAnchorElement).href).catch((): string => null)
+        : resolvePageUrl(url, pagination.urlTemplate, pages + 1);
+      if (!nextUrl || !/^https?:/.test(nextUrl) || visited.has(nextUrl.split('#')[0])) break;
+      visited.add(nextUrl.split('#')[0]);
 
-          if (results.length > 0) break;
+      await page.waitForTimeout(getPageDelay(this.config));
+      try {
+        const response = await page.goto(nextUrl, { waitUntil: browser.waitUntil, timeout: browser.navigationTimeout });
+        const title = await page.title();
+        if (isChallengeTitle(title)) throw new Error(`Bot challenge page detected: "${title}"`);
+        if (response && response.status() >= 400) throw new Error(`HTTP ${response.status()}`);
+        await runBrowserActions(page, browser.actions, nextUrl);
+        if (this.config.waitFor) {
+          await page.waitForSelector(this.config.waitFor, { timeout: 10000 }).catch(() => undefined);
         }
+      } catch (error) {
+        console.warn(`⚠️ Stopped paginating ${url} at ${nextUrl}: ${error instanceof Error ? error.message : error}`);
+        break;
+      }
 
-        return results;
-      }, this.config, url, domain);
+      // Items keep the listing URL so every page of a category lands on the same product rows
+      const next = await this.extractItems(page, url, responses);
+      containers += next.containers || 0;
+      candidates += next.candidates || 0;
+      if (mergePageItems(items, seen, next.items) === 0) break;
+      pages++;
+    }
 
-      console.log(`✅ ${url} - ${items.length} items`);
-      return items;
+    if (pages > 1) console.log(`📑 ${url} - ${items.length} items across ${pages} pages`);
+    return { items, containers, candidates };
+  }
 
-    } catch (error) {
-      console.error(`❌ ${url} - FAILED`);
-      return [];
-    }
+  // JSON bodies of the API calls the page makes, for sites configured with structuredData.source 'network'
+  private captureResponses(page: Page): Promise<unknown>[] {
+    const responses: Promise<unknown>[] = [];
+    const structured = this.config.structuredData;
+    if (!structured || structured.source !== 'network' || !structured.responseUrl) return responses;
+
+    page.on('response', response => {
+      const type = response.request().resourceType();
+      if ((type === 'xhr' || type === 'fetch') && response.url().includes(structured.responseUrl)) {
+        responses.push(response.json().catch(() => null));
+      }
+    });
+    return responses;
   }
 
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+  private async extractItems(page: Page, url: string, responses: Promise<unknown>[]): Promise<PageExtraction> {
+    // API responses the page fetched come first for sites configured with network structured data
+    if (this.config.structuredData?.source === 'network') {
+      const items = extractItemsFromJson((await Promise.all(responses)).filter(Boolean), url, this.config);
+      if (items.length > 0) {
+        console.log(`✅ ${url} - ${items.length} items from network data`);
+        return { items, containers: items.length, candidates: items.length };
+      }
+    }
+
+    try {
+      // The rendered DOM goes through the same extraction engine as plain HTTP and FlareSolverr HTML
+      const extraction = extractItemsFromHtml(await page.content(), url, this.config);
+      console.log(`✅ ${url} - ${extraction.items.length} items`);
+      return extraction;
+    } catch (error) {
+      console.error(`❌ ${url} - FAILED`);
+      return { items: [] };
     }
   }
-}
\ No newline at end of file
+}
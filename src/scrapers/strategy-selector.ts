@@ -0,0 +1,144 @@
+import { ScrapingStrategy, SiteConfig } from '../types';
+import { StrategyStats, strategyRepository } from '../storage/strategy-repository';
+
+export const STRATEGY_CHAIN: ScrapingStrategy[] = ['http', 'puppeteer', 'flaresolverr'];
+
+const RECENT_WINDOW = 10;      // Outcomes kept per strategy for the success rate
+const MIN_SAMPLES = 3;         // Outcomes needed before a success rate is trusted
+const DEMOTE_BELOW = 0.5;      // Preferred strategy success rate that sends a domain up the chain
+const PROBE_EVERY = 20;        // Successes on the preferred strategy before a cheaper one is probed
+
+interface DomainStrategyState {
+  domain: string;
+  preferred: ScrapingStrategy;
+  stats: Partial<Record<ScrapingStrategy, StrategyStats>>;
+  successesSinceProbe: number;
+  dirty: boolean;
+}
+
+export interface DomainStrategyStatus {
+  domain: string;
+  preferred: ScrapingStrategy;
+  strategies: { [strategy: string]: StrategyStats & { successRate: number | null } };
+}
+
+const successRate = (stats?: StrategyStats): number | null => {
+  if (!stats || stats.recent.length < MIN_SAMPLES) return null;
+  return stats.recent.filter(Boolean).length / stats.recent.length;
+};
+
+export class StrategySelector {
+  private states: Map<string, DomainStrategyState> = new Map();
+  private loaded: boolean = false;
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      for (const row of await strategyRepository.getAll()) {
+        if (!STRATEGY_CHAIN.includes(row.preferred)) continue;
+        this.states.set(row.domain, {
+          domain: row.domain,
+          preferred: row.preferred,
+          stats: row.stats || {},
+          successesSinceProbe: 0,
+          dirty: false
+        });
+      }
+      this.loaded = true;
+      console.log(`🧭 Loaded learned strategies for ${this.states.size} domains`);
+    } catch (error) {
+      console.error('❌ Failed to load domain strategies, starting from site config hints:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Strategies to try for one URL, in order: the learned one and everything heavier after it
+  plan(domain: string, config: SiteConfig): ScrapingStrategy[] {
+    const state = this.getState(domain, config);
+    const start = STRATEGY_CHAIN.indexOf(state.preferred);
+    const chain = STRATEGY_CHAIN.slice(start);
+
+    // A domain that has been reliable for a while gets one shot at the next cheaper strategy
+    if (start > 0 && state.successesSinceProbe >= PROBE_EVERY) {
+      state.successesSinceProbe = 0;
+      return [STRATEGY_CHAIN[start - 1], ...chain];
+    }
+    return chain;
+  }
+
+  record(domain: string, strategy: ScrapingStrategy, success: boolean): void {
+    const state = this.states.get(domain);
+    if (!state) return;
+
+    const stats = state.stats[strategy] || { attempts: 0, successes: 0, recent: [], lastSuccess: null, lastFailure: null };
+    stats.attempts++;
+    stats.recent = [...stats.recent, success].slice(-RECENT_WINDOW);
+    if (success) {
+      stats.successes++;
+      stats.lastSuccess = new Date().toISOString();
+    } else {
+      stats.lastFailure = new Date().toISOString();
+    }
+    state.stats[strategy] = stats;
+    state.dirty = true;
+
+    if (!success) return;
+
+    const position = STRATEGY_CHAIN.indexOf(strategy);
+    const preferredPosition = STRATEGY_CHAIN.indexOf(state.preferred);
+
+    if (position === preferredPosition) {
+      state.successesSinceProbe++;
+    } else if (position < preferredPosition) {
+      console.log(`⬆️ ${domain} promoted to ${strategy} (was ${state.preferred})`);
+      state.preferred = strategy;
+      state.successesSinceProbe = 0;
+    } else {
+      // A heavier strategy rescued this URL; move there once the preferred one is unreliable or never worked
+      const preferredStats = state.stats[state.preferred];
+      const rate = successRate(preferredStats);
+      if (!preferredStats || preferredStats.successes === 0 || (rate !== null && rate < DEMOTE_BELOW)) {
+        console.log(`⬇️ ${domain} demoted to ${strategy} (${state.preferred} success rate ${rate === null ? 'n/a' : Math.round(rate * 100) + '%'})`);
+        state.preferred = strategy;
+        state.successesSinceProbe = 0;
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    const dirty = Array.from(this.states.values()).filter(state => state.dirty);
+    if (dirty.length === 0) return;
+
+    try {
+      await strategyRepository.upsert(dirty.map(({ domain, preferred, stats }) => ({ domain, preferred, stats })));
+      dirty.forEach(state => state.dirty = false);
+    } catch (error) {
+      console.error('❌ Failed to persist domain strategies:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  getStatus(): DomainStrategyStatus[] {
+    return Array.from(this.states.values())
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+      .map(state => {
+        const strategies: DomainStrategyStatus['strategies'] = {};
+        for (const [strategy, stats] of Object.entries(state.stats)) {
+          strategies[strategy] = { ...stats, successRate: successRate(stats) };
+        }
+        return { domain: state.domain, preferred: state.preferred, strategies };
+      });
+  }
+
+  private getState(domain: string, config: SiteConfig): DomainStrategyState {
+    let state = this.states.get(domain);
+    if (!state) {
+      // Before anything is learned, trust the config: explicit strategy, else JS sites skip plain HTTP
+      const preferred = config.strategy || (config.requiresJS ? 'puppeteer' : 'http');
+      state = { domain, preferred, stats: {}, successesSinceProbe: 0, dirty: true };
+      this.states.set(domain, state);
+    }
+    return state;
+  }
+}
+
+export const strategySelector = new StrategySelector();
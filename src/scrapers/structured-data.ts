@@ -0,0 +1,178 @@
+import * as cheerio from 'cheerio';
+import { ScrapedItem, SiteConfig, StructuredDataConfig } from '../types';
+import { detectRegion, extractDomain, extractGameSlug, isValidPrice } from '../utils/helpers';
+import { normalizeText } from '../utils/text-normalizer';
+import { parseDiscount, parsePrice } from '../utils/price-parser';
+
+type Fields = Required<NonNullable<StructuredDataConfig['fields']>>;
+
+// Tried in order until one path has a value; a configured path replaces the list
+const DEFAULT_FIELDS: { [field in keyof Fields]: string[] } = {
+  title: ['name', 'title', 'productName'],
+  price: ['offers.price', 'offers.lowPrice', 'price', 'salePrice', 'sellingPrice', 'discountedPrice'],
+  originalPrice: ['originalPrice', 'listPrice', 'oldPrice', 'regularPrice'],
+  currency: ['offers.priceCurrency', 'priceCurrency', 'currency'],
+  inStock: ['offers.availability', 'availability', 'inStock', 'stock', 'isInStock']
+};
+
+const OUT_OF_STOCK_VALUE = /outofstock|soldout|discontinued|tukendi|tükendi|^false$|^0$/i;
+
+// Every value at the path; arrays are walked element by element, "[*]" and "[n]" pick explicitly
+export const readJsonPath = (data: unknown, path: string): unknown[] => {
+  const segments = path.replace(/\[(\*|\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current: unknown[] = [data];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (Array.isArray(value)) {
+        if (segment === '*') next.push(...value);
+        else if (/^\d+$/.test(segment)) next.push(value[Number(segment)]);
+        else value.forEach(element => next.push(...readJsonPath(element, segment)));
+      } else if (value && typeof value === 'object') {
+        if (segment === '*') next.push(...Object.values(value));
+        else next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    current = next.filter(value => value !== undefined && value !== null);
+  }
+
+  return current;
+};
+
+// Schema.org Product nodes, wherever they sit: top level, @graph, ItemList elements, arrays
+const findJsonLdProducts = (node: unknown, products: Record<string, unknown>[]): void => {
+  if (Array.isArray(node)) {
+    node.forEach(child => findJsonLdProducts(child, products));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const record = node as Record<string, unknown>;
+  const types = ([] as unknown[]).concat(record['@type'] || []).map(String);
+  if (types.includes('Product') || types.includes('ProductGroup')) {
+    products.push(record);
+    if (record.hasVariant) findJsonLdProducts(record.hasVariant, products);
+    return;
+  }
+
+  for (const key of ['@graph', 'itemListElement', 'item', 'mainEntity']) {
+    if (record[key]) findJsonLdProducts(record[key], products);
+  }
+};
+
+export const readJsonLdProducts = (html: string): Record<string, unknown>[] => {
+  const $ = cheerio.load(html);
+  const products: Record<string, unknown>[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      findJsonLdProducts(JSON.parse($(el).html() || ''), products);
+    } catch {
+      // Sites ship broken JSON-LD now and then; the other blocks still count
+    }
+  });
+
+  return products;
+};
+
+// JSON script content, or a plain "window.__STATE__ = {...};" assignment
+export const readEmbeddedState = (html: string, selector: string): unknown => {
+  const text = (cheerio.load(html)(selector).first().html() || '').trim();
+  if (!text) return null;
+
+  const json = /^[[{]/.test(text) ? text : text.replace(/^[^=]*=\s*/, '').replace(/;\s*$/, '');
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+const firstValue = (product: unknown, paths: string[]): unknown => {
+  for (const path of paths) {
+    const value = readJsonPath(product, path).find(v => v !== '');
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+// Numbers get a comma decimal so the Turkish-first price parser can't read "1.299" as a thousand
+const toPriceText = (value: unknown, currency: string | undefined): string => {
+  if (value === undefined) return '';
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value).trim()) ? Number(value) : null;
+  const text = numeric !== null ? numeric.toFixed(2).replace('.', ',') : String(value).trim();
+  return currency && !/[₺$€]|[A-Za-z]{2,}/.test(text) ? `${text} ${currency}` : text;
+};
+
+const toInStock = (value: unknown): boolean => {
+  if (value === undefined) return true;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  return !OUT_OF_STOCK_VALUE.test(String(value).split('/').pop().trim());
+};
+
+// Maps product objects onto ScrapedItem the same way the selector extraction fills it
+export const mapProducts = (products: unknown[], url: string, config: SiteConfig): ScrapedItem[] => {
+  const domain = extractDomain(url);
+  const configured = config.structuredData?.fields || {};
+  const paths = (field: keyof Fields) => configured[field] ? [configured[field]] : DEFAULT_FIELDS[field];
+
+  const items: ScrapedItem[] = [];
+  for (const product of products) {
+    if (!product || typeof product !== 'object') continue;
+
+    const title = normalizeText(String(firstValue(product, paths('title')) ?? ''), 200);
+    const currencyValue = firstValue(product, paths('currency'));
+    const currency = typeof currencyValue === 'string' ? currencyValue : undefined;
+    const priceText = toPriceText(firstValue(product, paths('price')), currency);
+    if (!title || !priceText) continue;
+
+    const parsed = parsePrice(priceText);
+    if (!parsed.ok || !isValidPrice(parsed.price)) continue;
+
+    const originalPriceText = toPriceText(firstValue(product, paths('originalPrice')), currency);
+    const { discountPercent } = parseDiscount(priceText, originalPriceText);
+
+    items.push({
+      title,
+      price: priceText,
+      originalPrice: discountPercent ? originalPriceText : undefined,
+      discountPercent,
+      inStock: toInStock(firstValue(product, paths('inStock'))),
+      currency: parsed.currency,
+      url,
+      siteName: domain,
+      gameSlug: extractGameSlug(url, title),
+      region: detectRegion(url, title)
+    });
+  }
+
+  return items;
+};
+
+const listProducts = (data: unknown, itemsPath?: string): unknown[] => {
+  if (!itemsPath) return Array.isArray(data) ? data : [data];
+  return readJsonPath(data, itemsPath).flatMap(value => Array.isArray(value) ? value : [value]);
+};
+
+// JSON-LD and embedded state, both of which are part of the HTML every strategy ends up with
+export const extractStructuredItems = (html: string, url: string, config: SiteConfig): ScrapedItem[] => {
+  const structured = config.structuredData;
+  if (!structured) return [];
+
+  if (structured.source === 'json-ld') {
+    return mapProducts(readJsonLdProducts(html), url, config);
+  }
+  if (structured.source === 'embedded' && structured.script) {
+    const state = readEmbeddedState(html, structured.script);
+    return state ? mapProducts(listProducts(state, structured.itemsPath), url, config) : [];
+  }
+  return [];
+};
+
+// Response bodies captured from the page's own API calls
+export const extractItemsFromJson = (payloads: unknown[], url: string, config: SiteConfig): ScrapedItem[] => {
+  const itemsPath = config.structuredData?.itemsPath;
+  return mapProducts(payloads.flatMap(payload => listProducts(payload, itemsPath)), url, config);
+};
@@ -0,0 +1,168 @@
+import * as cheerio from 'cheerio';
+import { ScrapedItem, SiteConfig } from '../types';
+import { extractDomain, isValidPrice } from '../utils/helpers';
+import { parsePrice } from '../utils/price-parser';
+import { extractItemsFromHtml } from '../scrapers/html-extractor';
+import {
+  OLD_PRICE_HINT,
+  RepeatedBlocks,
+  contains,
+  describeElement,
+  findPriceElements,
+  findRepeatedBlocks,
+  isOldPrice,
+  isTitleText
+} from '../scrapers/listing-analyzer';
+
+export interface ContainerSuggestion {
+  selector: string;
+  blocks: number;
+  pricesPerBlock: number;
+  score: number;
+  example: string;
+}
+
+export interface SelectorSuggestion {
+  selector: string;
+  coverage: number;    // Share of containers in which the selector yields a usable value
+  score: number;       // Coverage weighted by how title/price-like the element is; higher is better
+  example: string;
+}
+
+export interface SiteConfigSuggestion {
+  url: string;
+  containers: ContainerSuggestion[];
+  title: SelectorSuggestion[];
+  price: SelectorSuggestion[];
+  originalPrice: SelectorSuggestion[];
+  draft: SiteConfig | null;
+  preview: { count: number; items: ScrapedItem[] };
+}
+
+const MAX_SUGGESTIONS = 5;
+const SKIPPED_TAGS = ['script', 'style', 'noscript', 'svg', 'button', 'select', 'option', 'img', 'input'];
+const TITLE_HINT = /title|name|baslik|başlık|isim|product|urun|ürün/i;
+const PRICE_HINT = /price|fiyat|amount|tutar/i;
+
+const clean = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Scores each selector by what the extraction engine would read with it: the first match in every container
+const rankSelectors = (
+  $: cheerio.Root,
+  blocks: cheerio.TagElement[],
+  selectors: Set<string>,
+  read: (text: string) => boolean,
+  weight: (selector: string, texts: string[]) => number
+): SelectorSuggestion[] => {
+  const suggestions: SelectorSuggestion[] = [];
+
+  for (const selector of selectors) {
+    const texts: string[] = [];
+    for (const block of blocks) {
+      const text = clean($(block).find(selector).first().text());
+      if (read(text)) texts.push(text);
+    }
+    if (texts.length === 0) continue;
+
+    const coverage = texts.length / blocks.length;
+    suggestions.push({ selector, coverage: round(coverage), score: round(coverage * weight(selector, texts)), example: texts[0] });
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, MAX_SUGGESTIONS);
+};
+
+const suggestTitles = ($: cheerio.Root, blocks: cheerio.TagElement[]): SelectorSuggestion[] => {
+  const selectors = new Set<string>();
+  for (const block of blocks) {
+    // Wrappers around the price hold the whole card's text, not a title
+    const prices = findPriceElements($, $(block));
+    $(block).find('*').each((_, el) => {
+      const element = el as cheerio.TagElement;
+      if (element.type !== 'tag' || SKIPPED_TAGS.includes(element.tagName)) return;
+      if (prices.some(price => contains(element, price))) return;
+      const text = clean($(element).text());
+      if (text.length > 3 && text.length <= 150) selectors.add(describeElement(element));
+    });
+  }
+
+  return rankSelectors($, blocks, selectors, isTitleText, (selector, texts) => {
+    // The same text in every card is a button or a badge, not a product name
+    const uniqueness = new Set(texts).size / texts.length;
+    const hint = /^h[1-6]\b/.test(selector) || TITLE_HINT.test(selector) ? 1.5 : /^a\b/.test(selector) ? 1.2 : 1;
+    return uniqueness * hint;
+  });
+};
+
+const suggestPrices = ($: cheerio.Root, blocks: cheerio.TagElement[]): { price: SelectorSuggestion[]; originalPrice: SelectorSuggestion[] } => {
+  const current = new Set<string>();
+  const old = new Set<string>();
+  for (const block of blocks) {
+    for (const element of findPriceElements($, $(block))) {
+      (isOldPrice(element, block) ? old : current).add(describeElement(element));
+    }
+  }
+
+  const isPrice = (text: string) => {
+    const parsed = parsePrice(text);
+    return parsed.ok && isValidPrice(parsed.price);
+  };
+  const hinted = (pattern: RegExp) => (selector: string) => pattern.test(selector) ? 1.5 : 1;
+
+  return {
+    price: rankSelectors($, blocks, current, isPrice, hinted(PRICE_HINT)),
+    originalPrice: rankSelectors($, blocks, old, isPrice, hinted(OLD_PRICE_HINT))
+  };
+};
+
+const toContainerSuggestion = ($: cheerio.Root, group: RepeatedBlocks): ContainerSuggestion => ({
+  selector: group.selector,
+  blocks: group.priced,
+  pricesPerBlock: round(group.pricesPerBlock),
+  score: round(group.score),
+  example: clean($(group.blocks[0]).text()).substring(0, 120)
+});
+
+const siteName = (domain: string): string => {
+  const label = domain.split('.')[0];
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Finds the product listing in a page and proposes selectors for it: repeated sibling blocks with a
+// price become container candidates, and the best one is mined for title and price selectors
+export const suggestSiteConfig = (html: string, url: string): SiteConfigSuggestion => {
+  const $ = cheerio.load(html);
+  const domain = extractDomain(url);
+  const groups = findRepeatedBlocks($);
+  const best = groups[0];
+
+  const title = best ? suggestTitles($, best.blocks) : [];
+  const { price, originalPrice } = best ? suggestPrices($, best.blocks) : { price: [], originalPrice: [] };
+
+  const draft: SiteConfig | null = best && title.length > 0 && price.length > 0
+    ? {
+      name: siteName(domain),
+      domain,
+      selectors: {
+        container: best.selector,
+        title: title[0].selector,
+        price: price[0].selector,
+        ...(originalPrice.length > 0 ? { originalPrice: originalPrice[0].selector } : {})
+      }
+    }
+    : null;
+
+  // What the draft would scrape from this page, through the real engine
+  const items = draft ? extractItemsFromHtml(html, url, draft).items : [];
+
+  return {
+    url,
+    containers: groups.slice(0, MAX_SUGGESTIONS).map(group => toContainerSuggestion($, group)),
+    title,
+    price,
+    originalPrice,
+    draft,
+    preview: { count: items.length, items: items.slice(0, MAX_SUGGESTIONS) }
+  };
+};
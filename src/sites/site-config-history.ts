@@ -0,0 +1,174 @@
+import { ConfigChange, SiteConfig, SiteConfigVersion } from '../types';
+import { SiteConfigVersionRow, siteConfigRepository } from '../storage/site-config-repository';
+import { siteConfigs } from './site-config-store';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Leaf values by path ("selectors.price", "browser.actions[1].selector"), so key order never counts as a change
+const flatten = (value: unknown, path: string, leaves: Map<string, unknown>): Map<string, unknown> => {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) flatten(child, path ? `${path}.${key}` : key, leaves);
+  } else if (Array.isArray(value) && value.length > 0) {
+    value.forEach((child, index) => flatten(child, `${path}[${index}]`, leaves));
+  } else if (value !== undefined) {
+    leaves.set(path, value);
+  }
+  return leaves;
+};
+
+export const diffConfigs = (before: SiteConfig | null, after: SiteConfig | null): ConfigChange[] => {
+  const previous = flatten(before, '', new Map());
+  const next = flatten(after, '', new Map());
+  const changes: ConfigChange[] = [];
+
+  for (const [path, value] of previous) {
+    if (!next.has(path)) {
+      changes.push({ path, type: 'removed', before: value });
+    } else if (JSON.stringify(next.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, type: 'changed', before: value, after: next.get(path) });
+    }
+  }
+  for (const [path, value] of next) {
+    if (!previous.has(path)) changes.push({ path, type: 'added', after: value });
+  }
+
+  return changes;
+};
+
+const toVersion = (row: SiteConfigVersionRow, previous: SiteConfig | null): SiteConfigVersion => ({
+  domain: row.domain,
+  version: row.version,
+  author: row.author,
+  note: row.note,
+  createdAt: new Date(row.created_at).toISOString(),
+  deleted: row.config === null,
+  changes: diffConfigs(previous, row.config)
+});
+
+// Every change to a site config becomes a numbered version in site_config_versions, whether it came
+// through the API or an edit on disk, so a selector tweak that broke a site can be found and undone
+export class SiteConfigHistory {
+  // A null config means the latest version deleted it
+  private latest: Map<string, { version: number; config: SiteConfig | null }> = new Map();
+  private loaded: boolean = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Records a version for every config that differs from its latest stored one, and a deletion for every
+  // recorded config whose file is gone
+  async sync(configs: Record<string, SiteConfig>, author: string = 'file'): Promise<void> {
+    try {
+      await this.enqueue(() => this.load());
+      for (const [domain, config] of Object.entries(configs)) {
+        await this.recordChange(domain, config, author, 'changed on disk');
+      }
+      // The live store is checked too: a config written through the API after this reload isn't deleted
+      for (const [domain, latest] of Array.from(this.latest)) {
+        if (latest.config && !(domain in configs) && !siteConfigs.get(domain)) {
+          await this.recordDeletion(domain, author, 'deleted on disk');
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to record site config versions:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // The new version, or the latest one when the config is unchanged
+  async record(domain: string, config: SiteConfig, author: string, note: string | null = null): Promise<SiteConfigVersion> {
+    const recorded = await this.recordChange(domain, config, author, note);
+    return recorded || this.getVersion(domain, this.getCurrentVersion(domain));
+  }
+
+  // Records that a domain's config was deleted; null when there was no recorded config to delete
+  recordDeletion(domain: string, author: string, note: string | null = null): Promise<SiteConfigVersion | null> {
+    return this.enqueue(async () => {
+      await this.load();
+
+      const latest = this.latest.get(domain);
+      if (!latest?.config) return null;
+
+      const row = await siteConfigRepository.insert(domain, null, author, note || 'deleted');
+      this.latest.set(domain, { version: row.version, config: null });
+      console.log(`🗂️ ${domain} site config deletion recorded as v${row.version} (${author})`);
+      return toVersion(row, latest.config);
+    });
+  }
+
+  // Version of the config currently in use, if the history could be recorded
+  getCurrentVersion(domain: string): number | undefined {
+    const latest = this.latest.get(domain);
+    return latest?.config ? latest.version : undefined;
+  }
+
+  getCurrentVersions(): Record<string, number> {
+    const versions: Record<string, number> = {};
+    for (const [domain, { version, config }] of this.latest) {
+      if (config) versions[domain] = version;
+    }
+    return versions;
+  }
+
+  async getVersions(domain: string): Promise<SiteConfigVersion[]> {
+    const rows = await siteConfigRepository.getVersions(domain);
+    return rows.map((row, index) => toVersion(row, index > 0 ? rows[index - 1].config : null)).reverse();
+  }
+
+  // One version with its full config (null for a deletion); changes are against `against`, or the version before it
+  async getVersion(domain: string, version: number, against?: number): Promise<(SiteConfigVersion & { config: SiteConfig | null }) | null> {
+    const row = await siteConfigRepository.getVersion(domain, version);
+    if (!row) return null;
+
+    const baseVersion = against ?? version - 1;
+    const base = baseVersion > 0 ? await siteConfigRepository.getVersion(domain, baseVersion) : null;
+    return { ...toVersion(row, base?.config || null), config: row.config };
+  }
+
+  // Writes an earlier version back as the live config, which also restores a deleted one; the rollback itself
+  // becomes a new version. Rolling back to a deletion deletes the config again.
+  async rollback(domain: string, version: number, author: string): Promise<SiteConfigVersion | null> {
+    const target = await siteConfigRepository.getVersion(domain, version);
+    if (!target) return null;
+
+    if (!target.config) {
+      await siteConfigs.remove(domain);
+      const deletion = await this.recordDeletion(domain, author, `rollback to v${version}`);
+      return deletion || this.getVersion(domain, this.latest.get(domain)?.version ?? version);
+    }
+
+    const { config } = await siteConfigs.upsert(domain, target.config);
+    return this.record(domain, config, author, `rollback to v${version}`);
+  }
+
+  private recordChange(domain: string, config: SiteConfig, author: string, note: string | null): Promise<SiteConfigVersion | null> {
+    return this.enqueue(async () => {
+      await this.load();
+
+      // After a deletion, even an identical config is a change
+      const latest = this.latest.get(domain);
+      if (latest?.config && diffConfigs(latest.config, config).length === 0) return null;
+
+      const row = await siteConfigRepository.insert(domain, config, author, latest ? note : 'initial version');
+      this.latest.set(domain, { version: row.version, config: row.config });
+      console.log(`🗂️ ${domain} site config v${row.version} recorded (${author})`);
+      return toVersion(row, latest?.config || null);
+    });
+  }
+
+  // Reloads and API writes of the same file can overlap; recording one at a time keeps version numbers in order
+  private enqueue<T>(record: () => Promise<T>): Promise<T> {
+    const task = this.queue.then(record);
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    for (const row of await siteConfigRepository.getLatest()) {
+      this.latest.set(row.domain, { version: row.version, config: row.config });
+    }
+    this.loaded = true;
+  }
+}
+
+export const siteConfigHistory = new SiteConfigHistory();
@@ -0,0 +1,169 @@
+import * as cheerio from 'cheerio';
+import { SiteConfig } from '../types';
+
+export class SiteConfigValidationError extends Error {
+  errors: string[];
+
+  constructor(source: string, errors: string[]) {
+    super(`Invalid site config ${source}: ${errors.join('; ')}`);
+    this.errors = errors;
+  }
+}
+
+type Value = unknown;
+type Check = (value: Value, path: string, errors: string[]) => void;
+
+const RESOURCE_TYPES = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch',
+  'prefetch', 'eventsource', 'websocket', 'manifest', 'signedexchange', 'ping', 'cspviolationreport', 'preflight', 'other'
+];
+
+const isObject = (value: Value): value is Record<string, Value> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: Value): string => Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`;
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || !value.trim()) errors.push(`${path} must be a non-empty string, got ${describe(value)}`);
+};
+
+// A selector cheerio can't parse would fail on every page, so it is rejected up front
+const selector: Check = (value, path, errors) => {
+  string(value, path, errors);
+  if (typeof value !== 'string' || !value.trim()) return;
+  try {
+    cheerio.load('')(value);
+  } catch (error) {
+    errors.push(`${path} is not a valid CSS selector (${error instanceof Error ? error.message : error}): ${value}`);
+  }
+};
+
+const number = (min: number): Check => (value, path, errors) => {
+  if (typeof value !== 'number' || !isFinite(value) || value < min) errors.push(`${path} must be a number >= ${min}, got ${JSON.stringify(value)}`);
+};
+
+const boolean: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} must be true or false, got ${describe(value)}`);
+};
+
+const oneOf = (allowed: string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) errors.push(`${path} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+};
+
+const arrayOf = (item: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array, got ${describe(value)}`);
+    return;
+  }
+  value.forEach((element, index) => item(element, `${path}[${index}]`, errors));
+};
+
+// Required fields are marked with a leading "!"; unknown keys are reported so typos don't pass silently
+const object = (fields: { [key: string]: Check }): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path || 'config'} must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  for (const [key, check] of Object.entries(fields)) {
+    const name = key.replace(/^!/, '');
+    const fieldPath = path ? `${path}.${name}` : name;
+    if (value[name] === undefined) {
+      if (key.startsWith('!')) errors.push(`${fieldPath} is required`);
+      continue;
+    }
+    check(value[name], fieldPath, errors);
+  }
+
+  const known = Object.keys(fields).map(key => key.replace(/^!/, ''));
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) errors.push(`${path ? `${path}.${key}` : key} is not a known field`);
+  }
+};
+
+// Fields that depend on a discriminating "type"/"source" value
+const variant = (discriminator: string, variants: { [type: string]: { [key: string]: Check } }): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path || 'config'} must be an object, got ${describe(value)}`);
+    return;
+  }
+  const type = value[discriminator];
+  if (typeof type !== 'string' || !variants[type]) {
+    errors.push(`${path}.${discriminator} must be one of ${Object.keys(variants).join(', ')}, got ${JSON.stringify(type)}`);
+    return;
+  }
+  object({ [`!${discriminator}`]: oneOf([type]), ...variants[type] })(value, path, errors);
+};
+
+const PAGINATION_COMMON = { maxPages: number(1), delay: number(0) };
+
+const BROWSER_ACTION = variant('type', {
+  'wait': { '!ms': number(0) },
+  'wait-for-selector': { '!selector': selector, timeout: number(0) },
+  'scroll': { times: number(1), delay: number(0) },
+  'click': { '!selector': selector, delay: number(0) }
+});
+
+const SITE_CONFIG = object({
+  '!name': string,
+  '!domain': string,
+  '!selectors': object({
+    '!container': selector,
+    '!title': selector,
+    '!price': selector,
+    originalPrice: selector,
+    currency: selector
+  }),
+  availability: object({
+    outOfStockSelector: selector,
+    outOfStockKeywords: arrayOf(string)
+  }),
+  waitFor: selector,
+  delay: number(0),
+  maxRetries: number(0),
+  requiresJS: boolean,
+  strategy: oneOf(['http', 'puppeteer', 'flaresolverr']),
+  pagination: variant('type', {
+    'next-link': { '!nextSelector': selector, ...PAGINATION_COMMON },
+    'url-template': { '!urlTemplate': string, ...PAGINATION_COMMON },
+    'load-more': { '!loadMoreSelector': selector, ...PAGINATION_COMMON },
+    'infinite-scroll': PAGINATION_COMMON
+  }),
+  browser: object({
+    blockResources: arrayOf(oneOf(RESOURCE_TYPES)),
+    waitUntil: oneOf(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']),
+    navigationTimeout: number(1000),
+    actions: arrayOf(BROWSER_ACTION)
+  }),
+  structuredData: variant('source', {
+    'json-ld': {
+      fields: object({ title: string, price: string, originalPrice: string, currency: string, inStock: string })
+    },
+    'embedded': {
+      '!script': selector,
+      itemsPath: string,
+      fields: object({ title: string, price: string, originalPrice: string, currency: string, inStock: string })
+    },
+    'network': {
+      '!responseUrl': string,
+      itemsPath: string,
+      fields: object({ title: string, price: string, originalPrice: string, currency: string, inStock: string })
+    }
+  })
+});
+
+// Every problem in the config at once, as "path: message" strings; empty when it is valid
+export const validateSiteConfig = (value: unknown, expectedDomain?: string): string[] => {
+  const errors: string[] = [];
+  SITE_CONFIG(value, '', errors);
+
+  if (expectedDomain && isObject(value) && typeof value.domain === 'string' && value.domain !== expectedDomain) {
+    errors.push(`domain "${value.domain}" does not match "${expectedDomain}"`);
+  }
+  return errors;
+};
+
+export const parseSiteConfig = (value: unknown, source: string, expectedDomain?: string): SiteConfig => {
+  const errors = validateSiteConfig(value, expectedDomain);
+  if (errors.length > 0) throw new SiteConfigValidationError(source, errors);
+  return value as SiteConfig;
+};
@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { SiteConfig } from '../types';
+import { SiteConfigValidationError, parseSiteConfig } from './site-config-schema';
+
+const EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Domains double as file names, so anything that could leave the directory is refused
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+interface StoredSiteConfig {
+  config: SiteConfig;
+  file: string;
+}
+
+export interface SiteConfigFileError {
+  file: string;
+  errors: string[];
+}
+
+// Site configs live as one <domain>.json / .yaml file each in a directory that is watched, so selectors
+// can be fixed without a deploy. A file that fails validation is reported and the last good version stays live.
+export class SiteConfigStore {
+  private dir: string;
+  private configs: Map<string, StoredSiteConfig> = new Map();
+  private errors: Map<string, string[]> = new Map();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private listeners: Array<(configs: Record<string, SiteConfig>) => void> = [];
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  load(): void {
+    const files = fs.existsSync(this.dir)
+      ? fs.readdirSync(this.dir).filter(file => EXTENSIONS.includes(path.extname(file).toLowerCase())).sort()
+      : [];
+    if (files.length === 0) console.warn(`⚠️ No site configs found in ${this.dir}`);
+
+    const configs: Map<string, StoredSiteConfig> = new Map();
+    const errors: Map<string, string[]> = new Map();
+
+    for (const file of files) {
+      const domain = path.basename(file, path.extname(file));
+      try {
+        const config = parseSiteConfig(this.readFile(file), file, domain);
+        if (configs.has(domain)) {
+          throw new SiteConfigValidationError(file, [`${domain} is already defined in ${configs.get(domain).file}`]);
+        }
+        configs.set(domain, { config, file });
+      } catch (error) {
+        const messages = error instanceof SiteConfigValidationError
+          ? error.errors
+          : [error instanceof Error ? error.message : String(error)];
+        errors.set(file, messages);
+        console.error(`❌ Site config ${file} rejected:\n   - ${messages.join('\n   - ')}`);
+
+        const previous = this.configs.get(domain);
+        if (previous && previous.file === file && !configs.has(domain)) {
+          configs.set(domain, previous);
+          console.warn(`⚠️ Keeping the last valid config for ${domain}`);
+        }
+      }
+    }
+
+    this.configs = configs;
+    this.errors = errors;
+    console.log(`🗂️ Loaded ${configs.size} site configs from ${this.dir}${errors.size ? ` (${errors.size} invalid)` : ''}`);
+    this.listeners.forEach(listener => listener(this.getAll()));
+  }
+
+  // Called with every config after each (re)load
+  onLoad(listener: (configs: Record<string, SiteConfig>) => void): void {
+    this.listeners.push(listener);
+  }
+
+  // Reloads the directory shortly after it changes; editors write a file in several steps
+  watch(): void {
+    if (this.watcher || !fs.existsSync(this.dir)) return;
+
+    this.watcher = fs.watch(this.dir, (_, file) => {
+      if (file && !EXTENSIONS.includes(path.extname(file.toString()).toLowerCase())) return;
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        console.log('🔄 Site configs changed, reloading');
+        this.load();
+      }, 300);
+    });
+    this.watcher.on('error', error => console.error('❌ Site config watcher failed:', error));
+  }
+
+  close(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  get(domain: string): SiteConfig | undefined {
+    return this.configs.get(domain)?.config;
+  }
+
+  getAll(): Record<string, SiteConfig> {
+    const all: Record<string, SiteConfig> = {};
+    for (const [domain, { config }] of this.configs) all[domain] = config;
+    return all;
+  }
+
+  getDomains(): string[] {
+    return [...this.configs.keys()];
+  }
+
+  getErrors(): SiteConfigFileError[] {
+    return [...this.errors].map(([file, errors]) => ({ file, errors }));
+  }
+
+  // Validates and writes the config, keeping the format of an existing file; new sites are written as JSON
+  async upsert(domain: string, input: unknown): Promise<{ config: SiteConfig; created: boolean }> {
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new SiteConfigValidationError(domain, [`"${domain}" is not a valid domain`]);
+    }
+    const config = parseSiteConfig(input, domain, domain);
+
+    const existing = this.configs.get(domain);
+    const file = existing?.file || `${domain}.json`;
+    const content = path.extname(file) === '.json'
+      ? JSON.stringify(config, null, 2) + '\n'
+      : yaml.dump(config, { lineWidth: -1 });
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const target = path.join(this.dir, file);
+    await fs.promises.writeFile(`${target}.tmp`, content);
+    await fs.promises.rename(`${target}.tmp`, target);
+
+    this.configs.set(domain, { config, file });
+    this.errors.delete(file);
+    return { config, created: !existing };
+  }
+
+  async remove(domain: string): Promise<boolean> {
+    const existing = this.configs.get(domain);
+    if (!existing) return false;
+
+    await fs.promises.unlink(path.join(this.dir, existing.file));
+    this.configs.delete(domain);
+    this.errors.delete(existing.file);
+    return true;
+  }
+
+  private readFile(file: string): unknown {
+    const content = fs.readFileSync(path.join(this.dir, file), 'utf8');
+    return path.extname(file) === '.json' ? JSON.parse(content) : yaml.load(content);
+  }
+}
+
+export const siteConfigs = new SiteConfigStore(process.env.SITE_CONFIG_DIR || path.join(process.cwd(), 'site-configs'));
@@ -0,0 +1,138 @@
+import { getPool } from './database';
+import { CanonicalProduct, CatalogOverride } from '../types';
+
+export interface CatalogProductRow {
+  id: number;
+  product_name: string;
+  region: string;
+  url: string;
+  domain: string;
+  canonical_product_id: number | null;
+}
+
+export class CatalogRepository {
+  async ensureGame(slug: string, name: string): Promise<number> {
+    const { rows } = await getPool().query(
+      `INSERT INTO games (slug, name) VALUES ($1, $2)
+       ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+       RETURNING id`,
+      [slug, name]
+    );
+    return rows[0].id;
+  }
+
+  async ensureCanonicalProduct(
+    gameId: number,
+    canonicalKey: string,
+    amount: number,
+    unit: string,
+    region: string,
+    displayName: string
+  ): Promise<number> {
+    const { rows } = await getPool().query(
+      `INSERT INTO canonical_products (canonical_key, game_id, amount, unit, region, display_name)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (canonical_key) DO UPDATE SET canonical_key = EXCLUDED.canonical_key
+       RETURNING id`,
+      [canonicalKey, gameId, amount, unit, region, displayName]
+    );
+    return rows[0].id;
+  }
+
+  async getCanonicalProducts(game?: string): Promise<CanonicalProduct[]> {
+    const { rows } = await getPool().query(
+      `SELECT cp.id, cp.canonical_key, cp.game_id, g.slug AS game_slug, cp.amount::float8 AS amount,
+              cp.unit, cp.region, cp.display_name, COUNT(p.id)::int AS linked_products
+       FROM canonical_products cp
+       JOIN games g ON g.id = cp.game_id
+       LEFT JOIN products p ON p.canonical_product_id = cp.id
+       WHERE ($1::text IS NULL OR g.slug = $1)
+       GROUP BY cp.id, g.slug
+       ORDER BY g.slug, cp.unit, cp.amount, cp.region`,
+      [game || null]
+    );
+    return rows;
+  }
+
+  async getCanonicalProduct(idOrKey: number | string): Promise<CanonicalProduct | null> {
+    const { rows } = await getPool().query(
+      `SELECT cp.id, cp.canonical_key, cp.game_id, g.slug AS game_slug, cp.amount::float8 AS amount,
+              cp.unit, cp.region, cp.display_name
+       FROM canonical_products cp
+       JOIN games g ON g.id = cp.game_id
+       WHERE ${typeof idOrKey === 'number' ? 'cp.id' : 'cp.canonical_key'} = $1`,
+      [idOrKey]
+    );
+    return rows[0] || null;
+  }
+
+  async getLinkedProducts(canonicalProductId: number): Promise<CatalogProductRow[]> {
+    const { rows } = await getPool().query(
+      `SELECT p.id, p.product_name, p.region, p.url, s.domain, p.canonical_product_id
+       FROM products p
+       JOIN sites s ON s.id = p.site_id
+       WHERE p.canonical_product_id = $1
+       ORDER BY s.domain, p.product_name`,
+      [canonicalProductId]
+    );
+    return rows;
+  }
+
+  async getProducts(options: { domain?: string; unmatchedOnly?: boolean; limit?: number } = {}): Promise<CatalogProductRow[]> {
+    const { rows } = await getPool().query(
+      `SELECT p.id, p.product_name, p.region, p.url, s.domain, p.canonical_product_id
+       FROM products p
+       JOIN sites s ON s.id = p.site_id
+       WHERE ($1::text IS NULL OR s.domain = $1)
+         AND (NOT $2 OR p.canonical_product_id IS NULL)
+       ORDER BY s.domain, p.product_name
+       LIMIT $3`,
+      [options.domain || null, !!options.unmatchedOnly, options.limit || 100000]
+    );
+    return rows;
+  }
+
+  async linkProducts(productIds: number[], canonicalProductId: number | null): Promise<number> {
+    if (productIds.length === 0) return 0;
+
+    const result = await getPool().query(
+      'UPDATE products SET canonical_product_id = $1 WHERE id = ANY($2::int[])',
+      [canonicalProductId, productIds]
+    );
+    return result.rowCount || 0;
+  }
+
+  async getOverrides(): Promise<CatalogOverride[]> {
+    const { rows } = await getPool().query(
+      `SELECT o.id, o.domain, o.title, o.title_key, o.canonical_product_id, cp.canonical_key,
+              g.slug AS game_slug, cp.amount::float8 AS amount, cp.unit, cp.region, cp.display_name, o.created_at
+       FROM catalog_overrides o
+       JOIN canonical_products cp ON cp.id = o.canonical_product_id
+       JOIN games g ON g.id = cp.game_id
+       ORDER BY o.domain, o.title`
+    );
+    return rows;
+  }
+
+  async upsertOverride(domain: string, title: string, titleKey: string, canonicalProductId: number): Promise<number> {
+    const { rows } = await getPool().query(
+      `INSERT INTO catalog_overrides (domain, title, title_key, canonical_product_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (domain, title_key) DO UPDATE
+         SET title = EXCLUDED.title, canonical_product_id = EXCLUDED.canonical_product_id
+       RETURNING id`,
+      [domain, title, titleKey, canonicalProductId]
+    );
+    return rows[0].id;
+  }
+
+  async deleteOverride(id: number): Promise<{ id: number; domain: string } | null> {
+    const { rows } = await getPool().query(
+      'DELETE FROM catalog_overrides WHERE id = $1 RETURNING id, domain',
+      [id]
+    );
+    return rows[0] || null;
+  }
+}
+
+export const catalogRepository = new CatalogRepository();
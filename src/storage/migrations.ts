@@ -0,0 +1,207 @@
+import { getPool } from './database';
+
+interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Append new migrations at the end - never edit one that has already shipped
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE sites (
+        id SERIAL PRIMARY KEY,
+        domain TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE products (
+        id SERIAL PRIMARY KEY,
+        site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+        product_name TEXT NOT NULL,
+        region TEXT NOT NULL DEFAULT 'TR',
+        url TEXT NOT NULL,
+        game_slug TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (site_id, product_name, region)
+      );
+
+      CREATE TABLE price_observations (
+        id BIGSERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        price NUMERIC(12, 2) NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'TRY',
+        price_text TEXT,
+        url TEXT NOT NULL,
+        batch_id TEXT,
+        batch_timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_price_observations_product_time
+        ON price_observations (product_id, batch_timestamp DESC);
+      CREATE INDEX idx_price_observations_batch
+        ON price_observations (batch_id);
+    `
+  },
+  {
+    version: 2,
+    name: 'price_observation_discounts',
+    up: `
+      ALTER TABLE price_observations
+        ADD COLUMN original_price NUMERIC(12, 2),
+        ADD COLUMN discount_percent NUMERIC(5, 2);
+
+      CREATE INDEX idx_price_observations_discounted
+        ON price_observations (batch_timestamp DESC) WHERE discount_percent > 0;
+    `
+  },
+  {
+    version: 3,
+    name: 'price_observation_availability',
+    up: `
+      ALTER TABLE price_observations
+        ADD COLUMN in_stock BOOLEAN NOT NULL DEFAULT TRUE;
+    `
+  },
+  {
+    version: 4,
+    name: 'product_catalog',
+    up: `
+      CREATE TABLE games (
+        id SERIAL PRIMARY KEY,
+        slug TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE canonical_products (
+        id SERIAL PRIMARY KEY,
+        canonical_key TEXT NOT NULL UNIQUE,
+        game_id INTEGER NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+        amount NUMERIC(12, 2) NOT NULL,
+        unit TEXT NOT NULL,
+        region TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      ALTER TABLE products
+        ADD COLUMN canonical_product_id INTEGER REFERENCES canonical_products(id) ON DELETE SET NULL;
+      CREATE INDEX idx_products_canonical ON products (canonical_product_id);
+
+      CREATE TABLE catalog_overrides (
+        id SERIAL PRIMARY KEY,
+        domain TEXT NOT NULL DEFAULT '',
+        title TEXT NOT NULL,
+        title_key TEXT NOT NULL,
+        canonical_product_id INTEGER NOT NULL REFERENCES canonical_products(id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (domain, title_key)
+      );
+    `
+  },
+  {
+    version: 5,
+    name: 'domain_strategies',
+    up: `
+      CREATE TABLE domain_strategies (
+        domain TEXT PRIMARY KEY,
+        preferred TEXT NOT NULL,
+        stats JSONB NOT NULL DEFAULT '{}',
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    version: 6,
+    name: 'site_config_versions',
+    up: `
+      CREATE TABLE site_config_versions (
+        id SERIAL PRIMARY KEY,
+        domain TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        config JSONB NOT NULL,
+        author TEXT NOT NULL,
+        note TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (domain, version)
+      );
+    `
+  },
+  {
+    version: 7,
+    name: 'price_observation_batch_unique',
+    up: `
+      -- The backend stores each batch and N8N posted the same rows back; keep one per product and batch,
+      -- preferring the row that carries the batch id
+      DELETE FROM price_observations
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, ROW_NUMBER() OVER (
+            PARTITION BY product_id, batch_timestamp ORDER BY batch_id IS NULL, id
+          ) AS position
+          FROM price_observations
+        ) ranked
+        WHERE position > 1
+      );
+
+      CREATE UNIQUE INDEX idx_price_observations_product_batch
+        ON price_observations (product_id, batch_timestamp DESC);
+      DROP INDEX idx_price_observations_product_time;
+    `
+  },
+  {
+    version: 8,
+    name: 'site_config_deletions',
+    up: `
+      -- A version without a config records that the domain's config was deleted
+      ALTER TABLE site_config_versions ALTER COLUMN config DROP NOT NULL;
+    `
+  }
+];
+
+export const runMigrations = async (): Promise<number> => {
+  const client = await getPool().connect();
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Several backend replicas may start at once - only one should migrate
+    await client.query('SELECT pg_advisory_lock(7426001)');
+
+    const { rows } = await client.query('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map(row => Number(row.version)));
+    const pending = MIGRATIONS.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      console.log(`🗄️ Applying migration ${migration.version} (${migration.name})...`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return pending.length;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock(7426001)').catch(() => undefined);
+    client.release();
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { N8NPriceItem } from '../types';
+import { toObservation } from './price-repository';
+
+const item = (price: number | string, extra: Partial<N8NPriceItem> = {}): N8NPriceItem => ({
+  domain: 'shop.test',
+  product_name: 'Valorant 1000 VP',
+  price,
+  currency: 'TRY',
+  batch_timestamp: '2026-10-19T10:00:00.000Z',
+  ...extra
+});
+
+describe('N8N price items', () => {
+  test('stores parseable prices', () => {
+    const observation = toObservation(item('249,90 TL', { original_price: 299.9 }));
+
+    assert.equal(observation.price, 249.9);
+    assert.equal(observation.original_price, 299.9);
+    assert.equal(observation.discount_percent, 16.7);
+    assert.equal(observation.price_text, '249,90 TL');
+    assert.equal(observation.url, 'https://shop.test');
+    assert.deepEqual(observation.batch_timestamp, new Date('2026-10-19T10:00:00.000Z'));
+    assert.equal(toObservation(item(149.5)).price, 149.5);
+  });
+
+  test('rejects prices that are not a usable amount', () => {
+    assert.equal(toObservation(item('Stokta yok')), null);
+    assert.equal(toObservation(item('Fiyat sorunuz')), null);
+    assert.equal(toObservation(item('0,00 TL')), null);
+    assert.equal(toObservation(item(0)), null);
+    assert.equal(toObservation(item(-5)), null);
+  });
+});
@@ -0,0 +1,374 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool, withTransaction } from './database';
+import { siteConfigs } from '../sites/site-config-store';
+import {
+  BatchResult,
+  HistoryInterval,
+  N8NPriceItem,
+  PriceHistorySeries,
+  PriceObservationInput,
+  StoredPrice
+} from '../types';
+import { extractDomain, isValidPrice } from '../utils/helpers';
+import { calculateDiscountPercent, parseDiscount, parsePrice } from '../utils/price-parser';
+
+export interface LatestPriceQuery {
+  domain?: string;
+  search?: string;
+  discountedOnly?: boolean;
+  inStockOnly?: boolean;
+  limit?: number;
+}
+
+export interface PriceHistoryQuery {
+  productId?: number;
+  product?: string;
+  domain?: string;
+  from?: Date;
+  to?: Date;
+  interval?: HistoryInterval;
+  timezone?: string;
+}
+
+export interface CanonicalOfferQuery {
+  canonicalProductId?: number;
+  canonicalKey?: string;
+  game?: string;
+  maxAgeHours?: number;
+}
+
+export interface CanonicalOfferRow {
+  canonical_product_id: number;
+  canonical_key: string;
+  display_name: string;
+  game_slug: string;
+  amount: number;
+  unit: string;
+  region: string;
+  domain: string;
+  site_name: string;
+  product_name: string;
+  price: number;
+  discount_percent: number | null;
+  currency: string;
+  in_stock: boolean;
+  url: string;
+  scraped_at: Date;
+}
+
+const MAX_HISTORY_ROWS = 20000;
+
+// An N8N row as an observation, or null when its price is not a usable amount ("Stokta yok", 0) - the
+// same rule storeBatch applies, so a placeholder never shows up as the cheapest offer
+export const toObservation = (item: N8NPriceItem): PriceObservationInput | null => {
+  const parsed = typeof item.price === 'number'
+    ? { ok: true, price: item.price, currency: item.currency }
+    : parsePrice(String(item.price));
+  if (!parsed.ok || !isValidPrice(parsed.price)) return null;
+
+  const originalPrice = item.original_price ? Number(item.original_price) : undefined;
+  const discountPercent = calculateDiscountPercent(parsed.price, originalPrice);
+
+  return {
+    domain: item.domain,
+    site_name: item.site_name,
+    price: parsed.price,
+    original_price: discountPercent ? originalPrice : undefined,
+    discount_percent: discountPercent,
+    in_stock: item.in_stock !== false,
+    currency: item.currency || parsed.currency,
+    price_text: String(item.price),
+    region: item.region || 'TR',
+    product_name: item.product_name,
+    url: item.url || `https://${item.domain}`,
+    game_slug: item.game_slug,
+    batch_id: item.batch_id,
+    batch_timestamp: item.batch_timestamp ? new Date(item.batch_timestamp) : new Date()
+  };
+};
+
+export class PriceRepository {
+  // Idempotent per product and batch: the same batch stored twice (by the backend and again through
+  // N8N's /api/prices/store) keeps one observation. Returns the number of new observations.
+  async storePrices(inputs: PriceObservationInput[]): Promise<number> {
+    if (inputs.length === 0) return 0;
+
+    return withTransaction(async (client) => {
+      const siteIds = new Map<string, number>();
+      const productIds = new Map<string, number>();
+      let inserted = 0;
+
+      for (const input of inputs) {
+        let siteId = siteIds.get(input.domain);
+        if (siteId === undefined) {
+          siteId = await this.ensureSite(input.domain, input.site_name, client);
+          siteIds.set(input.domain, siteId);
+        }
+
+        const productKey = `${siteId}|${input.product_name}|${input.region}`;
+        let productId = productIds.get(productKey);
+        if (productId === undefined) {
+          productId = await this.upsertProduct(client, siteId, input);
+          productIds.set(productKey, productId);
+        }
+
+        const { rowCount } = await client.query(
+          `INSERT INTO price_observations
+             (product_id, price, original_price, discount_percent, in_stock, currency, price_text, url, batch_id, batch_timestamp)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+           ON CONFLICT (product_id, batch_timestamp) DO NOTHING`,
+          [
+            productId,
+            input.price,
+            input.original_price ?? null,
+            input.discount_percent ?? null,
+            input.in_stock ?? true,
+            input.currency,
+            input.price_text || null,
+            input.url,
+            input.batch_id || null,
+            input.batch_timestamp
+          ]
+        );
+        inserted += rowCount;
+      }
+
+      return inserted;
+    });
+  }
+
+  async storeBatch(batchResult: BatchResult): Promise<number> {
+    const inputs: PriceObservationInput[] = [];
+
+    batchResult.results.forEach(result => {
+      if (!result.success) return;
+
+      result.items.forEach(item => {
+        const { ok, price, currency } = parsePrice(item.price);
+        if (!ok || !isValidPrice(price)) return;
+
+        const { originalPrice, discountPercent } = parseDiscount(item.price, item.originalPrice);
+        inputs.push({
+          domain: item.siteName || extractDomain(item.url),
+          price,
+          original_price: originalPrice,
+          discount_percent: discountPercent,
+          in_stock: item.inStock,
+          currency,
+          price_text: item.price,
+          region: item.region,
+          product_name: item.title,
+          url: item.url,
+          game_slug: item.gameSlug,
+          game_id: item.gameId,
+          site_id: item.siteId,
+          canonical_product_id: item.canonicalProductId,
+          canonical_key: item.canonicalKey,
+          batch_id: batchResult.batchId,
+          batch_timestamp: batchResult.timestamp
+        });
+      });
+    });
+
+    return this.storePrices(inputs);
+  }
+
+  async getLatestPrices(query: LatestPriceQuery = {}): Promise<StoredPrice[]> {
+    const conditions: string[] = [];
+    const params: (string | number | Date)[] = [];
+
+    if (query.domain) {
+      params.push(query.domain);
+      conditions.push(`s.domain = $${params.length}`);
+    }
+    if (query.search) {
+      params.push(`%${query.search}%`);
+      conditions.push(`(p.product_name ILIKE $${params.length} OR s.domain ILIKE $${params.length})`);
+    }
+
+    params.push(Math.max(1, Math.min(5000, query.limit || 1000)));
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { rows } = await getPool().query(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (p.id)
+           po.id::int AS id, p.id AS product_id, s.id AS site_id, s.domain, s.name AS site_name,
+           p.product_name, po.price::float8 AS price, po.original_price::float8 AS original_price,
+           po.discount_percent::float8 AS discount_percent, po.in_stock, po.currency, po.price_text, p.region,
+           po.url, p.game_slug, po.batch_id, po.batch_timestamp AS scraped_at
+         FROM price_observations po
+         JOIN products p ON p.id = po.product_id
+         JOIN sites s ON s.id = p.site_id
+         ${where}
+         ORDER BY p.id, po.batch_timestamp DESC
+       ) latest
+       ${this.latestFilters(query)}
+       ORDER BY scraped_at DESC, domain, product_name
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return rows;
+  }
+
+  // Rows past MAX_HISTORY_ROWS are dropped; truncated tells the caller to narrow the range or coarsen the interval
+  async getPriceHistory(query: PriceHistoryQuery): Promise<{ series: PriceHistorySeries[]; truncated: boolean }> {
+    const interval = query.interval || 'raw';
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const params: (string | number | Date)[] = [from, to];
+    const conditions = ['po.batch_timestamp >= $1', 'po.batch_timestamp <= $2'];
+
+    if (query.productId) {
+      params.push(query.productId);
+      conditions.push(`p.id = $${params.length}`);
+    }
+    if (query.product) {
+      params.push(`%${query.product}%`);
+      conditions.push(`p.product_name ILIKE $${params.length}`);
+    }
+    if (query.domain) {
+      params.push(query.domain);
+      conditions.push(`s.domain = $${params.length}`);
+    }
+
+    let sql: string;
+    if (interval === 'raw') {
+      sql = `
+        SELECT p.id AS product_id, p.product_name, s.domain, p.region, po.currency,
+               po.batch_timestamp AS bucket,
+               po.price::float8 AS min, po.price::float8 AS max, po.price::float8 AS last, 1 AS samples
+        FROM price_observations po
+        JOIN products p ON p.id = po.product_id
+        JOIN sites s ON s.id = p.site_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY p.id, po.currency, bucket`;
+    } else {
+      // Buckets follow the local calendar so a "day" means a Turkish day, not a UTC one
+      params.push(query.timezone || 'Europe/Istanbul');
+      const tz = `$${params.length}`;
+      sql = `
+        SELECT p.id AS product_id, p.product_name, s.domain, p.region, po.currency,
+               date_trunc('${interval}', po.batch_timestamp AT TIME ZONE ${tz}) AT TIME ZONE ${tz} AS bucket,
+               MIN(po.price)::float8 AS min,
+               MAX(po.price)::float8 AS max,
+               (ARRAY_AGG(po.price ORDER BY po.batch_timestamp DESC))[1]::float8 AS last,
+               COUNT(*)::int AS samples
+        FROM price_observations po
+        JOIN products p ON p.id = po.product_id
+        JOIN sites s ON s.id = p.site_id
+        WHERE ${conditions.join(' AND ')}
+        GROUP BY p.id, p.product_name, s.domain, p.region, po.currency, bucket
+        ORDER BY p.id, po.currency, bucket`;
+    }
+
+    // One row past the cap shows whether anything was cut off
+    const { rows } = await getPool().query(`${sql} LIMIT ${MAX_HISTORY_ROWS + 1}`, params);
+    const truncated = rows.length > MAX_HISTORY_ROWS;
+    if (truncated) rows.length = MAX_HISTORY_ROWS;
+
+    const series = new Map<string, PriceHistorySeries>();
+    for (const row of rows) {
+      const key = `${row.product_id}|${row.currency}`;
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          product_id: row.product_id,
+          product_name: row.product_name,
+          domain: row.domain,
+          region: row.region,
+          currency: row.currency,
+          interval,
+          points: []
+        };
+        series.set(key, entry);
+      }
+
+      entry.points.push({
+        timestamp: row.bucket,
+        min: row.min,
+        max: row.max,
+        last: row.last,
+        samples: row.samples
+      });
+    }
+
+    return { series: Array.from(series.values()), truncated };
+  }
+
+  // Latest observation of every site listing linked to a canonical product
+  async getLatestCanonicalOffers(query: CanonicalOfferQuery = {}): Promise<CanonicalOfferRow[]> {
+    const params: (string | number | Date)[] = [Math.max(1, Math.round(query.maxAgeHours || 72))];
+    const conditions = ['p.canonical_product_id IS NOT NULL'];
+
+    if (query.canonicalProductId) {
+      params.push(query.canonicalProductId);
+      conditions.push(`cp.id = $${params.length}`);
+    }
+    if (query.canonicalKey) {
+      params.push(query.canonicalKey);
+      conditions.push(`cp.canonical_key = $${params.length}`);
+    }
+    if (query.game) {
+      params.push(query.game);
+      conditions.push(`g.slug = $${params.length}`);
+    }
+
+    const { rows } = await getPool().query(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (p.id)
+           cp.id AS canonical_product_id, cp.canonical_key, cp.display_name, g.slug AS game_slug,
+           cp.amount::float8 AS amount, cp.unit, cp.region, s.domain, s.name AS site_name, p.product_name,
+           po.price::float8 AS price, po.discount_percent::float8 AS discount_percent, po.currency,
+           po.in_stock, po.url, po.batch_timestamp AS scraped_at
+         FROM price_observations po
+         JOIN products p ON p.id = po.product_id
+         JOIN sites s ON s.id = p.site_id
+         JOIN canonical_products cp ON cp.id = p.canonical_product_id
+         JOIN games g ON g.id = cp.game_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY p.id, po.batch_timestamp DESC
+       ) latest
+       WHERE scraped_at >= NOW() - make_interval(hours => $1)
+       ORDER BY game_slug, unit, amount, region, price`,
+      params
+    );
+
+    return rows;
+  }
+
+  async ensureSite(domain: string, siteName?: string, client: Pool | PoolClient = getPool()): Promise<number> {
+    const name = siteName || siteConfigs.get(domain)?.name || domain;
+    const { rows } = await client.query(
+      `INSERT INTO sites (domain, name) VALUES ($1, $2)
+       ON CONFLICT (domain) DO UPDATE SET domain = EXCLUDED.domain
+       RETURNING id`,
+      [domain, name]
+    );
+    return rows[0].id;
+  }
+
+  private latestFilters(query: LatestPriceQuery): string {
+    const filters: string[] = [];
+    if (query.discountedOnly) filters.push('discount_percent > 0');
+    if (query.inStockOnly) filters.push('in_stock');
+    return filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+  }
+
+  private async upsertProduct(client: PoolClient, siteId: number, input: PriceObservationInput): Promise<number> {
+    const { rows } = await client.query(
+      `INSERT INTO products (site_id, product_name, region, url, game_slug, canonical_product_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (site_id, product_name, region) DO UPDATE
+         SET url = EXCLUDED.url,
+             game_slug = COALESCE(EXCLUDED.game_slug, products.game_slug),
+             canonical_product_id = COALESCE(EXCLUDED.canonical_product_id, products.canonical_product_id)
+       RETURNING id`,
+      [siteId, input.product_name, input.region, input.url, input.game_slug || null, input.canonical_product_id || null]
+    );
+    return rows[0].id;
+  }
+}
+
+export const priceRepository = new PriceRepository();
@@ -0,0 +1,57 @@
+import { getPool } from './database';
+import { SiteConfig } from '../types';
+
+export interface SiteConfigVersionRow {
+  domain: string;
+  version: number;
+  config: SiteConfig | null;     // null: the config was deleted
+  author: string;
+  note: string | null;
+  created_at: Date;
+}
+
+export class SiteConfigRepository {
+  async getLatest(): Promise<SiteConfigVersionRow[]> {
+    const { rows } = await getPool().query(
+      `SELECT DISTINCT ON (domain) domain, version, config, author, note, created_at
+       FROM site_config_versions
+       ORDER BY domain, version DESC`
+    );
+    return rows;
+  }
+
+  async getVersions(domain: string): Promise<SiteConfigVersionRow[]> {
+    const { rows } = await getPool().query(
+      `SELECT domain, version, config, author, note, created_at
+       FROM site_config_versions
+       WHERE domain = $1
+       ORDER BY version`,
+      [domain]
+    );
+    return rows;
+  }
+
+  async getVersion(domain: string, version: number): Promise<SiteConfigVersionRow | null> {
+    const { rows } = await getPool().query(
+      `SELECT domain, version, config, author, note, created_at
+       FROM site_config_versions
+       WHERE domain = $1 AND version = $2`,
+      [domain, version]
+    );
+    return rows[0] || null;
+  }
+
+  async insert(domain: string, config: SiteConfig | null, author: string, note: string | null): Promise<SiteConfigVersionRow> {
+    const { rows } = await getPool().query(
+      `INSERT INTO site_config_versions (domain, version, config, author, note)
+       SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4
+       FROM site_config_versions
+       WHERE domain = $1
+       RETURNING domain, version, config, author, note, created_at`,
+      [domain, config ? JSON.stringify(config) : null, author, note]
+    );
+    return rows[0];
+  }
+}
+
+export const siteConfigRepository = new SiteConfigRepository();
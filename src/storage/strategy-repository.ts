@@ -0,0 +1,41 @@
+import { getPool } from './database';
+import { ScrapingStrategy } from '../types';
+
+export interface StrategyStats {
+  attempts: number;
+  successes: number;
+  recent: boolean[];
+  lastSuccess: string | null;
+  lastFailure: string | null;
+}
+
+export interface DomainStrategyRow {
+  domain: string;
+  preferred: ScrapingStrategy;
+  stats: Partial<Record<ScrapingStrategy, StrategyStats>>;
+  updated_at: Date;
+}
+
+export class StrategyRepository {
+  async getAll(): Promise<DomainStrategyRow[]> {
+    const { rows } = await getPool().query(
+      'SELECT domain, preferred, stats, updated_at FROM domain_strategies ORDER BY domain'
+    );
+    return rows;
+  }
+
+  async upsert(states: Omit<DomainStrategyRow, 'updated_at'>[]): Promise<void> {
+    if (states.length === 0) return;
+
+    await getPool().query(
+      `INSERT INTO domain_strategies (domain, preferred, stats, updated_at)
+       SELECT domain, preferred, stats, NOW()
+       FROM jsonb_to_recordset($1::jsonb) AS s(domain TEXT, preferred TEXT, stats JSONB)
+       ON CONFLICT (domain) DO UPDATE
+         SET preferred = EXCLUDED.preferred, stats = EXCLUDED.stats, updated_at = NOW()`,
+      [JSON.stringify(states)]
+    );
+  }
+}
+
+export const strategyRepository = new StrategyRepository();
@@ -1,11 +1,17 @@
 export interface ScrapedPrice {
   game_id?: number;
   site_id?: number;
+  canonical_product_id?: number;
+  canonical_key?: string;
   price: number;
+  original_price?: number;
+  discount_percent?: number;
+  in_stock?: boolean;
   currency: string;
   region: string;
   product_name: string;
   url: string;
+  low_confidence?: boolean;
   batch_timestamp: Date;
 }
 
@@ -13,11 +19,63 @@ export interface ScrapedItem {
   title: string;
   price: string;
   originalPrice?: string;
+  discountPercent?: number;
+  inStock: boolean;
   currency: string;
   region: string;
   url: string;
   siteName: string;
   gameSlug?: string;
+  canonicalKey?: string;
+  canonicalProductId?: number;
+  gameId?: number;
+  siteId?: number;
+  lowConfidence?: boolean;     // Found by the heuristic extractor, not by site selectors
+}
+
+// Cheapest first: plain HTTP + cheerio, then a real browser, then FlareSolverr
+export type ScrapingStrategy = 'http' | 'puppeteer' | 'flaresolverr';
+
+// How a listing continues past its first page. HTML-only strategies (plain HTTP, FlareSolverr) can follow
+// next-link and url-template; load-more and infinite-scroll need a browser and only run under Puppeteer.
+export interface PaginationConfig {
+  type: 'next-link' | 'url-template' | 'load-more' | 'infinite-scroll';
+  nextSelector?: string;       // next-link: anchor whose href is the next page
+  urlTemplate?: string;        // url-template: "{url}?page={page}" - {url} is the listing URL, {page} starts at 2
+  loadMoreSelector?: string;   // load-more: button that appends the next batch of products
+  maxPages?: number;           // Pages (or clicks/scrolls) including the first one; defaults to 5
+  delay?: number;              // Pause between pages, clicks or scrolls (ms); defaults to the site delay
+}
+
+// Product data a storefront ships as JSON instead of markup. Paths are dot separated ("props.pageProps.products",
+// "data.items[0].variants", "categories[*].products"); arrays on the way are walked element by element.
+export interface StructuredDataConfig {
+  source: 'json-ld' | 'embedded' | 'network';
+  script?: string;        // embedded: selector of the script holding the state, e.g. "script#__NEXT_DATA__"
+  responseUrl?: string;   // network: substring of the XHR/fetch URLs whose JSON carries products (Puppeteer only)
+  itemsPath?: string;     // Path to the product list; json-ld finds Product blocks on its own
+  fields?: {              // Paths relative to one product; defaults cover schema.org and common API names
+    title?: string;
+    price?: string;
+    originalPrice?: string;
+    currency?: string;
+    inStock?: string;
+  };
+}
+
+// Steps run in the page after navigation, before waitFor and extraction. Best effort: a banner that
+// isn't there or a selector that never shows up is logged and skipped.
+export type BrowserAction =
+  | { type: 'wait'; ms: number }
+  | { type: 'wait-for-selector'; selector: string; timeout?: number }
+  | { type: 'scroll'; times?: number; delay?: number }    // To the bottom, to trigger lazy loading
+  | { type: 'click'; selector: string; delay?: number };  // Cookie/age banners, region pickers
+
+export interface BrowserConfig {
+  blockResources?: string[];   // Puppeteer resource types to abort; defaults to images and stylesheets, [] loads everything
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+  navigationTimeout?: number;
+  actions?: BrowserAction[];
 }
 
 export interface SiteConfig {
@@ -30,21 +88,67 @@ export interface SiteConfig {
     originalPrice?: string;
     currency?: string;
   };
+  availability?: {
+    outOfStockSelector?: string;
+    outOfStockKeywords?: string[];
+  };
   waitFor?: string;
   delay?: number;
   maxRetries?: number;
   requiresJS?: boolean;
+  strategy?: ScrapingStrategy;
+  pagination?: PaginationConfig;
+  browser?: BrowserConfig;
+  structuredData?: StructuredDataConfig;   // Tried before the selectors, which stay the fallback
+  generic?: boolean;           // Unconfigured domain: products are found by page structure, selectors are unused
 }
 
+// Why a URL produced no items. Decides retries and proxy benching, and points at what to fix:
+// selector misses and parse failures need a config change, challenges need a heavier strategy or proxy.
+export type FailureKind =
+  | 'navigation_timeout'
+  | 'http_status'
+  | 'bot_challenge'
+  | 'selector_miss'
+  | 'empty_category'
+  | 'parse_failure'
+  | 'network_error'
+  | 'unknown';
+
 export interface ScrapingResult {
   success: boolean;
   url: string;
   items: ScrapedItem[];
   error?: string;
+  failure?: FailureKind;
+  statusCode?: number;
+  attempts?: number;
+  proxy?: string;
+  strategy?: ScrapingStrategy;
+  configVersion?: number;      // Site config version the items were extracted with
+  html?: string;               // First page's HTML, only kept for selector tests
   responseTime: number;
   siteName: string;
 }
 
+// One field of a site config that differs between two versions, e.g. "selectors.price"
+export interface ConfigChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SiteConfigVersion {
+  domain: string;
+  version: number;
+  author: string;
+  note: string | null;
+  createdAt: string;
+  deleted: boolean;            // The config was deleted in this version; rolling back to an earlier one restores it
+  changes: ConfigChange[];     // Against the previous version; everything is "added" for the first one
+}
+
 export interface BatchResult {
   batchId: string;
   timestamp: Date;
@@ -54,6 +158,7 @@ export interface BatchResult {
   results: ScrapingResult[];
   totalItems: number;
   errors: string[];
+  failures: Partial<Record<FailureKind, number>>;
 }
 
 export interface N8NWebhookPayload {
@@ -66,4 +171,140 @@ export interface N8NWebhookPayload {
     failedCount: number;
     totalItems: number;
   };
-}
\ No newline at end of file
+}
+
+export interface PriceObservationInput extends ScrapedPrice {
+  domain: string;
+  site_name?: string;
+  price_text?: string;
+  game_slug?: string;
+  batch_id?: string;
+}
+
+// One row as N8N posts it to /api/prices/store; price may still be the scraped text
+export interface N8NPriceItem {
+  domain: string;
+  site_name?: string;
+  product_name: string;
+  price: number | string;
+  original_price?: number | string;
+  in_stock?: boolean;
+  currency: string;
+  region?: string;
+  url?: string;
+  game_slug?: string;
+  batch_id?: string;
+  batch_timestamp?: string;
+}
+
+export interface StoredPrice {
+  id: number;
+  product_id: number;
+  site_id: number;
+  domain: string;
+  site_name: string;
+  product_name: string;
+  price: number;
+  original_price: number | null;
+  discount_percent: number | null;
+  in_stock: boolean;
+  currency: string;
+  price_text: string | null;
+  region: string;
+  url: string;
+  game_slug: string | null;
+  batch_id: string | null;
+  scraped_at: Date;
+}
+
+export type HistoryInterval = 'raw' | 'hour' | 'day';
+
+export interface PriceHistoryPoint {
+  timestamp: Date;
+  min: number;
+  max: number;
+  last: number;
+  samples: number;
+}
+
+export interface PriceHistorySeries {
+  product_id: number;
+  product_name: string;
+  domain: string;
+  region: string;
+  currency: string;
+  interval: HistoryInterval;
+  points: PriceHistoryPoint[];
+}
+
+export interface ProductDenomination {
+  amount: number;
+  unit: string;
+}
+
+export interface NormalizedProduct {
+  game: string;
+  denomination?: ProductDenomination;
+  region: string;
+  titleKey: string;
+  canonicalKey?: string;
+  displayName?: string;
+  matchedBy: 'rule' | 'override' | 'unmatched';
+}
+
+export interface CanonicalProduct {
+  id: number;
+  canonical_key: string;
+  game_id: number;
+  game_slug: string;
+  amount: number;
+  unit: string;
+  region: string;
+  display_name: string;
+  linked_products?: number;
+}
+
+export interface CatalogOverride {
+  id: number;
+  domain: string;
+  title: string;
+  title_key: string;
+  canonical_product_id: number;
+  canonical_key: string;
+  game_slug: string;
+  amount: number;
+  unit: string;
+  region: string;
+  display_name: string;
+  created_at: Date;
+}
+
+export interface SiteOffer {
+  domain: string;
+  siteName: string;
+  productName: string;
+  price: number;
+  currency: string;
+  unitPrice: number;
+  inStock: boolean;
+  discountPercent?: number;
+  url: string;
+  scrapedAt: Date;
+}
+
+export interface PriceComparison {
+  canonicalProductId: number;
+  canonicalKey: string;
+  displayName: string;
+  game: string;
+  amount: number;
+  unit: string;
+  region: string;
+  currency: string;
+  offers: SiteOffer[];
+  cheapest: SiteOffer | null;
+  mostExpensive: SiteOffer | null;
+  spread: number | null;
+  spreadPercent: number | null;
+  inStockSites: number;
+}
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DomainScheduler } from './domain-scheduler';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('DomainScheduler', () => {
+  test('spaces request starts on a domain by domainDelay with several in flight', async () => {
+    const scheduler = new DomainScheduler({
+      concurrency: 4,
+      maxPerDomain: 2,
+      requestDelay: 0,
+      domainDelay: 100,
+      failureDelay: 0
+    });
+    const starts: { url: string; at: number }[] = [];
+
+    const urls = ['http://shop.test/a', 'http://shop.test/b', 'http://shop.test/c', 'http://other.test/a'];
+    await scheduler.run(
+      urls,
+      async url => {
+        starts.push({ url, at: Date.now() });
+        await sleep(300);
+        return url;
+      },
+      { fallback: url => url }
+    );
+
+    const shop = starts.filter(start => start.url.startsWith('http://shop.test')).map(start => start.at);
+    assert.equal(shop.length, 3);
+    // Timers may fire a millisecond early
+    assert.ok(shop[1] - shop[0] >= 98, `starts ${shop.join(', ')}`);
+    assert.ok(shop[2] - shop[1] >= 98, `starts ${shop.join(', ')}`);
+    // Two requests overlapped: the second started while the first was still running
+    assert.ok(shop[1] - shop[0] < 300, `starts ${shop.join(', ')}`);
+    // Other domains are not held back
+    assert.ok(starts.find(start => start.url === 'http://other.test/a').at - shop[0] < 50);
+  });
+});
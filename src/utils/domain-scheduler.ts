@@ -0,0 +1,183 @@
+import { extractDomain } from './helpers';
+
+export interface SchedulerOptions {
+  concurrency: number;    // Requests in flight across all domains
+  maxPerDomain: number;   // Requests in flight against a single domain
+  requestDelay: number;   // Pause after a request finishes before the same domain is hit again (ms)
+  domainDelay: number;    // Minimum spacing between request starts on the same domain (ms)
+  failureDelay: number;   // Extra cool-down for a domain after a failed request (ms)
+  deadline?: number;      // Epoch ms after which queued URLs are skipped instead of started
+}
+
+export interface DomainSchedule {
+  queued: number;
+  inFlight: number;
+  completed: number;
+  failed: number;
+  lastRequest: number | null;
+  nextAvailable: number;
+}
+
+export interface RunHandlers<T> {
+  isFailure?: (result: T) => boolean;
+  // Builds the result for a URL whose worker threw or that was skipped at the deadline
+  fallback: (url: string, reason: string) => T;
+  onSettled?: (processed: number, total: number) => void;
+}
+
+export class DomainScheduler {
+  private options: SchedulerOptions;
+  private domains: Map<string, DomainSchedule> = new Map();
+  private queues: Map<string, number[]> = new Map();
+  private inFlight: number = 0;
+
+  constructor(options: SchedulerOptions) {
+    this.options = {
+      ...options,
+      concurrency: Math.max(1, options.concurrency),
+      maxPerDomain: Math.max(1, options.maxPerDomain)
+    };
+  }
+
+  // Runs the worker for every URL and resolves with results in input order
+  run<T>(urls: string[], worker: (url: string) => Promise<T>, handlers: RunHandlers<T>): Promise<T[]> {
+    const results: T[] = new Array(urls.length);
+    let processed = 0;
+    let timer: NodeJS.Timeout | null = null;
+
+    urls.forEach((url, index) => {
+      const domain = extractDomain(url);
+      if (!this.queues.has(domain)) this.queues.set(domain, []);
+      this.queues.get(domain).push(index);
+      this.getSchedule(domain).queued++;
+    });
+
+    return new Promise(resolve => {
+      if (urls.length === 0) return resolve(results);
+
+      const settle = (index: number, result: T) => {
+        results[index] = result;
+        processed++;
+        if (handlers.onSettled) handlers.onSettled(processed, urls.length);
+        if (processed === urls.length) {
+          if (timer) clearTimeout(timer);
+          resolve(results);
+        }
+      };
+
+      const start = (domain: string) => {
+        const schedule = this.getSchedule(domain);
+        const index = this.queues.get(domain).shift();
+        const url = urls[index];
+
+        schedule.queued--;
+        schedule.inFlight++;
+        schedule.lastRequest = Date.now();
+        // Holds back the next start on this domain while this one is still running (maxPerDomain > 1)
+        schedule.nextAvailable = Math.max(schedule.nextAvailable, schedule.lastRequest + this.options.domainDelay);
+        this.inFlight++;
+
+        worker(url)
+          .catch(error => handlers.fallback(url, error instanceof Error ? error.message : 'Unknown error'))
+          .then(result => {
+            const failed = handlers.isFailure ? handlers.isFailure(result) : false;
+            const finishedAt = Date.now();
+
+            schedule.inFlight--;
+            schedule.completed++;
+            if (failed) schedule.failed++;
+            schedule.nextAvailable = Math.max(
+              schedule.lastRequest + this.options.domainDelay,
+              finishedAt + this.options.requestDelay + (failed ? this.options.failureDelay : 0)
+            );
+            this.inFlight--;
+
+            settle(index, result);
+            dispatch();
+          });
+      };
+
+      const dispatch = () => {
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+
+        const now = Date.now();
+        if (this.options.deadline && now >= this.options.deadline) {
+          this.skipQueued(urls, handlers, settle);
+          return;
+        }
+
+        while (this.inFlight < this.options.concurrency) {
+          const domain = this.nextReadyDomain(now);
+          if (!domain) break;
+          start(domain);
+        }
+
+        // Sleep until the next domain comes off its cool-down; finishing requests also re-dispatch
+        const wakeAt = this.nextWakeTime(now);
+        if (this.inFlight < this.options.concurrency && wakeAt !== null) {
+          const deadline = this.options.deadline || Infinity;
+          timer = setTimeout(dispatch, Math.min(wakeAt, deadline) - now);
+        }
+      };
+
+      dispatch();
+    });
+  }
+
+  getStatus(): { [domain: string]: DomainSchedule } {
+    const status: { [domain: string]: DomainSchedule } = {};
+    for (const [domain, schedule] of this.domains.entries()) {
+      status[domain] = { ...schedule };
+    }
+    return status;
+  }
+
+  private getSchedule(domain: string): DomainSchedule {
+    let schedule = this.domains.get(domain);
+    if (!schedule) {
+      schedule = { queued: 0, inFlight: 0, completed: 0, failed: 0, lastRequest: null, nextAvailable: 0 };
+      this.domains.set(domain, schedule);
+    }
+    return schedule;
+  }
+
+  private canStart(domain: string): boolean {
+    const schedule = this.getSchedule(domain);
+    return (this.queues.get(domain) || []).length > 0 && schedule.inFlight < this.options.maxPerDomain;
+  }
+
+  // Among ready domains, the one that has waited longest goes first so no domain starves
+  private nextReadyDomain(now: number): string | null {
+    let best: string | null = null;
+    for (const domain of this.queues.keys()) {
+      const schedule = this.getSchedule(domain);
+      if (!this.canStart(domain) || schedule.nextAvailable > now) continue;
+      if (!best || (schedule.lastRequest || 0) < (this.getSchedule(best).lastRequest || 0)) best = domain;
+    }
+    return best;
+  }
+
+  private nextWakeTime(now: number): number | null {
+    let wakeAt: number | null = null;
+    for (const domain of this.queues.keys()) {
+      const schedule = this.getSchedule(domain);
+      if (!this.canStart(domain) || schedule.nextAvailable <= now) continue;
+      if (wakeAt === null || schedule.nextAvailable < wakeAt) wakeAt = schedule.nextAvailable;
+    }
+    return wakeAt;
+  }
+
+  private skipQueued<T>(urls: string[], handlers: RunHandlers<T>, settle: (index: number, result: T) => void): void {
+    for (const [domain, queue] of this.queues.entries()) {
+      const schedule = this.getSchedule(domain);
+      while (queue.length > 0) {
+        const index = queue.shift();
+        schedule.queued--;
+        settle(index, handlers.fallback(urls[index], 'Skipped: max execution time reached'));
+      }
+    }
+  }
+}
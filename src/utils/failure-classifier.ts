@@ -0,0 +1,71 @@
+import { FailureKind, ScrapingResult } from '../types';
+import { isChallengeTitle } from './helpers';
+import { foldText } from './text-normalizer';
+
+// What a scraper saw of the page before giving up; every field is optional because a failure can happen at any step
+export interface PageSignals {
+  statusCode?: number;
+  title?: string;
+  html?: string;
+  containers?: number;   // Elements the container selector matched
+  candidates?: number;   // Containers that had both a title and a price text
+}
+
+export const FAILURE_KINDS: FailureKind[] = [
+  'navigation_timeout',
+  'http_status',
+  'bot_challenge',
+  'selector_miss',
+  'empty_category',
+  'parse_failure',
+  'network_error',
+  'unknown'
+];
+
+// Matched against folded text (lowercase, Turkish letters and accents stripped)
+const CHALLENGE_BODY_PATTERN = /cf-chl-|challenge-platform|cf-turnstile|g-recaptcha|h-captcha|hcaptcha|ddos-guard|checking your browser|verify you are human|robot olmadiginizi|guvenlik dogrulamasi/;
+const CHALLENGE_ERROR_PATTERN = /challenge|captcha|cloudflare|just a moment/i;
+const EMPTY_CATEGORY_PATTERN = /urun bulunamadi|sonuc bulunamadi|kayit bulunamadi|bu kategoride (henuz )?urun (yok|bulunmamaktadir)|no products? (were )?found|no results found/;
+const TIMEOUT_ERROR_PATTERN = /timeout|timed out|ETIMEDOUT|ERR_TIMED_OUT/i;
+const NETWORK_ERROR_PATTERN = /net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|socket hang up|ERR_PROXY|ERR_TUNNEL|\b407\b|target closed|session closed|protocol error/i;
+
+export const classifyFailure = (error: string | undefined, signals: PageSignals = {}): FailureKind => {
+  const message = error || '';
+  const body = signals.html ? foldText(signals.html) : '';
+
+  if (
+    CHALLENGE_ERROR_PATTERN.test(message) ||
+    (signals.title && isChallengeTitle(signals.title)) ||
+    CHALLENGE_BODY_PATTERN.test(body)
+  ) {
+    return 'bot_challenge';
+  }
+  if (signals.statusCode !== undefined && signals.statusCode >= 400) return 'http_status';
+  if (TIMEOUT_ERROR_PATTERN.test(message)) return 'navigation_timeout';
+  if (NETWORK_ERROR_PATTERN.test(message)) return 'network_error';
+
+  // The page loaded; what the extractor found on it tells a broken config from a genuinely empty listing
+  if (!signals.candidates) {
+    if (EMPTY_CATEGORY_PATTERN.test(body)) return 'empty_category';
+    if (signals.containers !== undefined) return 'selector_miss';
+  } else {
+    return 'parse_failure';
+  }
+
+  return 'unknown';
+};
+
+// The kind a scraper recorded, or one derived from the error text and status for results built elsewhere
+export const failureOf = (result: ScrapingResult): FailureKind | undefined => {
+  if (result.success) return undefined;
+  return result.failure || classifyFailure(result.error, { statusCode: result.statusCode });
+};
+
+export const countFailures = (results: ScrapingResult[]): Partial<Record<FailureKind, number>> => {
+  const counts: Partial<Record<FailureKind, number>> = {};
+  for (const result of results) {
+    const failure = failureOf(result);
+    if (failure) counts[failure] = (counts[failure] || 0) + 1;
+  }
+  return counts;
+};
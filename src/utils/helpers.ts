@@ -1,4 +1,5 @@
 import UserAgent from 'user-agents';
+import { foldText } from './text-normalizer';
 
 export class UserAgentRotator {
   private agents: string[];
@@ -63,9 +64,7 @@ export const extractGameSlug = (url: string, title: string): string => {
     'razer-gold': ['razer', 'gold']
   };
 
-  const urlLower = url.toLowerCase();
-  const titleLower = title.toLowerCase();
-  const combined = `${urlLower} ${titleLower}`;
+  const combined = foldText(`${url} ${title}`);
 
   for (const [slug, keywords] of Object.entries(gameKeywords)) {
     if (keywords.some(keyword => combined.includes(keyword))) {
@@ -76,47 +75,54 @@ export const extractGameSlug = (url: string, title: string): string => {
   return 'unknown';
 };
 
-export const parsePrice = (priceText: string): { price: number; currency: string } => {
-  if (!priceText) return { price: 0, currency: 'TRY' };
-
-  // Remove whitespace and normalize
-  const cleaned = priceText.replace(/\s+/g, ' ').trim();
-  
-  // Common currency patterns
-  const patterns = [
-    { regex: /(\d+(?:[.,]\d+)?)\s*₺/g, currency: 'TRY' },
-    { regex: /₺\s*(\d+(?:[.,]\d+)?)/g, currency: 'TRY' },
-    { regex: /(\d+(?:[.,]\d+)?)\s*TL/gi, currency: 'TRY' },
-    { regex: /TL\s*(\d+(?:[.,]\d+)?)/gi, currency: 'TRY' },
-    { regex: /(\d+(?:[.,]\d+)?)\s*\$/g, currency: 'USD' },
-    { regex: /\$\s*(\d+(?:[.,]\d+)?)/g, currency: 'USD' },
-    { regex: /(\d+(?:[.,]\d+)?)\s*€/g, currency: 'EUR' },
-    { regex: /€\s*(\d+(?:[.,]\d+)?)/g, currency: 'EUR' },
-    { regex: /(\d+(?:[.,]\d+)?)/g, currency: 'TRY' } // Default fallback
-  ];
-
-  for (const pattern of patterns) {
-    const match = pattern.regex.exec(cleaned);
-    if (match && match[1]) {
-      const price = parseFloat(match[1].replace(',', '.'));
-      return { price, currency: pattern.currency };
-    }
-  }
-
-  return { price: 0, currency: 'TRY' };
+const REGION_WORDS: { [word: string]: string } = {
+  global: 'GLOBAL',
+  worldwide: 'GLOBAL',
+  eu: 'EU',
+  europe: 'EU',
+  avrupa: 'EU',
+  na: 'US',
+  us: 'US',
+  usa: 'US',
+  abd: 'US',
+  america: 'US',
+  tr: 'TR',
+  turkey: 'TR',
+  turkiye: 'TR'
 };
 
+// Whole words only, so "League" doesn't read as EU; the title wins over the URL
 export const detectRegion = (url: string, title: string): string => {
-  const combined = `${url} ${title}`.toLowerCase();
-  
-  if (combined.includes('global') || combined.includes('worldwide')) return 'GLOBAL';
-  if (combined.includes('eu') || combined.includes('europe') || combined.includes('west')) return 'EU';
-  if (combined.includes('na') || combined.includes('north') || combined.includes('america') || combined.includes('usa') || combined.includes('us')) return 'US';
-  if (combined.includes('tr') || combined.includes('turkey') || combined.includes('turkiye')) return 'TR';
+  for (const text of [title, url]) {
+    const region = foldText(text || '').split(/[^a-z0-9]+/).map(word => REGION_WORDS[word]).find(Boolean);
+    if (region) return region;
+  }
   
   return 'TR'; // Default to Turkey
 };
 
+export const DEFAULT_OUT_OF_STOCK_KEYWORDS = [
+  'tükendi',
+  'stokta yok',
+  'stok yok',
+  'stokta bulunmamaktadır',
+  'temin edilemiyor',
+  'out of stock',
+  'sold out'
+];
+
+export const hasOutOfStockKeyword = (text: string, keywords: string[] = DEFAULT_OUT_OF_STOCK_KEYWORDS): boolean => {
+  const haystack = foldText(text);
+  return keywords.some(keyword => haystack.includes(foldText(keyword)));
+};
+
+// Interstitials served instead of the listing by Cloudflare, DDoS-Guard and similar
+const CHALLENGE_TITLE_PATTERN = /just a moment|attention required|checking your browser|ddos-guard|security check|bir dakika/i;
+
+export const isChallengeTitle = (title: string): boolean => {
+  return CHALLENGE_TITLE_PATTERN.test(title || '');
+};
+
 export const generateBatchId = (): string => {
   return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
@@ -124,10 +130,3 @@ export const generateBatchId = (): string => {
 export const isValidPrice = (price: number): boolean => {
   return price > 0 && price < 1000000 && !isNaN(price);
 };
-
-export const sanitizeText = (text: string): string => {
-  return text
-    .replace(/\s+/g, ' ')
-    .replace(/[^\w\s\-_.₺$€]/g, '')
-    .trim();
-};
\ No newline at end of file
@@ -1,5 +1,6 @@
 import axios, { AxiosResponse } from 'axios';
 import { N8NWebhookPayload, ScrapedPrice, BatchResult } from '../types';
+import { parseDiscount, parsePrice } from './price-parser';
 
 export class N8NClient {
   private webhookUrl: string;
@@ -25,15 +26,24 @@ export class N8NClient {
       batchResult.results.forEach(result => {
         if (result.success && result.items.length > 0) {
           result.items.forEach(item => {
-            const { price, currency } = this.parsePrice(item.price);
+            const { ok, price, currency } = parsePrice(item.price);
             
-            if (price > 0) {
+            if (ok) {
+              const { originalPrice, discountPercent } = parseDiscount(item.price, item.originalPrice);
               prices.push({
+                game_id: item.gameId,
+                site_id: item.siteId,
+                canonical_product_id: item.canonicalProductId,
+                canonical_key: item.canonicalKey,
                 price,
+                original_price: originalPrice,
+                discount_percent: discountPercent,
+                in_stock: item.inStock,
                 currency,
                 region: item.region,
                 product_name: item.title,
                 url: item.url,
+                low_confidence: item.lowConfidence,
                 batch_timestamp: batchResult.timestamp
               });
             }
@@ -96,36 +106,6 @@ export class N8NClient {
     }
   }
 
-  private parsePrice(priceText: string): { price: number; currency: string } {
-    if (!priceText) return { price: 0, currency: 'TRY' };
-
-    // Remove whitespace and normalize
-    const cleaned = priceText.replace(/\s+/g, ' ').trim();
-    
-    // Common currency patterns
-    const patterns = [
-      { regex: /(\d+(?:[.,]\d+)?)\s*₺/g, currency: 'TRY' },
-      { regex: /₺\s*(\d+(?:[.,]\d+)?)/g, currency: 'TRY' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*TL/gi, currency: 'TRY' },
-      { regex: /TL\s*(\d+(?:[.,]\d+)?)/gi, currency: 'TRY' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*\$/g, currency: 'USD' },
-      { regex: /\$\s*(\d+(?:[.,]\d+)?)/g, currency: 'USD' },
-      { regex: /(\d+(?:[.,]\d+)?)\s*€/g, currency: 'EUR' },
-      { regex: /€\s*(\d+(?:[.,]\d+)?)/g, currency: 'EUR' },
-      { regex: /(\d+(?:[.,]\d+)?)/g, currency: 'TRY' } // Default fallback
-    ];
-
-    for (const pattern of patterns) {
-      const match = pattern.regex.exec(cleaned);
-      if (match && match[1]) {
-        const price = parseFloat(match[1].replace(',', '.'));
-        return { price, currency: pattern.currency };
-      }
-    }
-
-    return { price: 0, currency: 'TRY' };
-  }
-
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
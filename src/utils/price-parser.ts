@@ -0,0 +1,199 @@
+export interface ParsedPrice {
+  ok: boolean;
+  price: number;
+  currency: string;
+  confidence: number;
+  isRange: boolean;
+  reason?: string;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface CurrencyToken extends Token {
+  currency: string;
+}
+
+const CURRENCY_PATTERN = /₺|\$|€|(?<![A-Za-zÇĞİÖŞÜçğıöşü])(?:TL|TRY|USD|EUR)(?![A-Za-zÇĞİÖŞÜçğıöşü])/gi;
+
+// "1 299,99" style groups first, then any digit run with separators
+const NUMBER_PATTERN = /\d{1,3}(?:[ \u00a0\u202f]\d{3})+(?:[.,]\d+)?|\d[\d.,]*/g;
+
+const RANGE_KEYWORDS = /başlangıç|baslangic|itibaren|den başlayan|from|starting/i;
+
+const CURRENCY_CODES: { [symbol: string]: string } = {
+  '₺': 'TRY',
+  'TL': 'TRY',
+  'TRY': 'TRY',
+  '$': 'USD',
+  'USD': 'USD',
+  '€': 'EUR',
+  'EUR': 'EUR'
+};
+
+const failure = (reason: string, currency: string): ParsedPrice => ({
+  ok: false,
+  price: 0,
+  currency,
+  confidence: 0,
+  isRange: false,
+  reason
+});
+
+const findCurrencies = (text: string): CurrencyToken[] => {
+  const tokens: CurrencyToken[] = [];
+  for (const match of text.matchAll(CURRENCY_PATTERN)) {
+    tokens.push({
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      currency: CURRENCY_CODES[match[0].toUpperCase()]
+    });
+  }
+  return tokens;
+};
+
+const findNumbers = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const value = match[0].replace(/[.,]+$/, '');
+    const start = match.index;
+    const end = start + value.length;
+
+    // Percentages are discounts, not prices
+    if (text[start - 1] === '%' || /^\s*%/.test(text.slice(end))) continue;
+
+    tokens.push({ text: value, start, end });
+  }
+  return tokens;
+};
+
+// Resolves thousands vs decimal separators, assuming Turkish formatting when ambiguous
+const toNumber = (token: string): { value: number; ambiguous: boolean } => {
+  const compact = token.replace(/[ \u00a0\u202f]/g, '');
+  const lastDot = compact.lastIndexOf('.');
+  const lastComma = compact.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    return {
+      value: parseFloat(compact.split(thousands).join('').replace(decimal, '.')),
+      ambiguous: false
+    };
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) {
+    return { value: parseFloat(compact), ambiguous: false };
+  }
+
+  const parts = compact.split(separator);
+  if (parts.length > 2) {
+    return { value: parseFloat(parts.join('')), ambiguous: false };
+  }
+
+  // "1.299" is a thousand in Turkish, "49,90" and "29.99" are decimals
+  if (parts[1].length === 3) {
+    return { value: parseFloat(parts.join('')), ambiguous: true };
+  }
+
+  return { value: parseFloat(`${parts[0]}.${parts[1]}`), ambiguous: false };
+};
+
+const adjacentCurrency = (number: Token, text: string, currencies: CurrencyToken[]): CurrencyToken | undefined => {
+  return currencies.find(currency => {
+    const between = currency.start >= number.end
+      ? text.slice(number.end, currency.start)
+      : text.slice(currency.end, number.start);
+    return /^\s*$/.test(between);
+  });
+};
+
+export const parsePrice = (priceText: string, defaultCurrency: string = 'TRY'): ParsedPrice => {
+  if (!priceText) return failure('empty price text', defaultCurrency);
+
+  const text = priceText.replace(/[\u00a0\u202f]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!text) return failure('empty price text', defaultCurrency);
+
+  const currencies = findCurrencies(text);
+  const numbers = findNumbers(text);
+  if (numbers.length === 0) return failure(`no numeric value in "${text}"`, currencies[0]?.currency || defaultCurrency);
+
+  const withCurrency = numbers
+    .map(number => ({ number, currency: adjacentCurrency(number, text, currencies) }))
+    .filter(candidate => candidate.currency);
+
+  // "49,90 - 59,90 TL": the lower bound shares the currency written after the upper one
+  numbers.forEach((number, index) => {
+    const next = withCurrency.find(candidate => candidate.number === numbers[index + 1]);
+    const alreadyPriced = withCurrency.some(candidate => candidate.number === number);
+    if (next && !alreadyPriced && /^\s*[-–]\s*$/.test(text.slice(number.end, next.number.start))) {
+      withCurrency.push({ number, currency: next.currency });
+    }
+  });
+
+  const candidates = withCurrency.length > 0
+    ? withCurrency
+    : numbers.map(number => ({ number, currency: undefined as CurrencyToken | undefined }));
+
+  const parsed = candidates
+    .map(candidate => ({ ...candidate, ...toNumber(candidate.number.text) }))
+    .filter(candidate => isFinite(candidate.value) && candidate.value > 0);
+
+  if (parsed.length === 0) return failure(`no positive amount in "${text}"`, currencies[0]?.currency || defaultCurrency);
+
+  // Ranges and "starting from" prices are recorded at their lowest amount
+  const chosen = parsed.reduce((lowest, candidate) => candidate.value < lowest.value ? candidate : lowest);
+  const isRange = parsed.length > 1 || RANGE_KEYWORDS.test(text);
+
+  let confidence = 1;
+  const notes: string[] = [];
+
+  const currency = chosen.currency?.currency || currencies[0]?.currency;
+  if (!chosen.currency) {
+    confidence *= currencies.length > 0 ? 0.8 : 0.6;
+    notes.push(currencies.length > 0 ? 'currency not adjacent to amount' : `no currency, assumed ${defaultCurrency}`);
+  }
+  if (chosen.ambiguous) {
+    confidence *= 0.7;
+    notes.push(`ambiguous separator in "${chosen.number.text}"`);
+  }
+  if (isRange) {
+    confidence *= 0.8;
+    notes.push('range or starting price, using lowest amount');
+  }
+
+  return {
+    ok: true,
+    price: Math.round(chosen.value * 100) / 100,
+    currency: currency || defaultCurrency,
+    confidence: Math.round(confidence * 100) / 100,
+    isRange,
+    reason: notes.length > 0 ? notes.join('; ') : undefined
+  };
+};
+
+// A strikethrough price at or below the selling price is a mis-selected element, not a promotion
+export const calculateDiscountPercent = (price: number, originalPrice: number): number | undefined => {
+  if (!(price > 0) || !(originalPrice > price)) return undefined;
+  return Math.round((originalPrice - price) / originalPrice * 1000) / 10;
+};
+
+export const parseDiscount = (
+  priceText: string,
+  originalPriceText?: string
+): { originalPrice?: number; discountPercent?: number } => {
+  if (!originalPriceText) return {};
+
+  const current = parsePrice(priceText);
+  const original = parsePrice(originalPriceText, current.currency);
+
+  if (!current.ok || !original.ok || original.currency !== current.currency) return {};
+
+  const discountPercent = calculateDiscountPercent(current.price, original.price);
+  return discountPercent ? { originalPrice: original.price, discountPercent } : {};
+};
@@ -0,0 +1,62 @@
+import { FailureKind, ScrapingResult } from '../types';
+import { failureOf } from './failure-classifier';
+import { sleep } from './helpers';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+// Transient failures worth another attempt: timeouts, dropped connections, bot challenges
+const RETRYABLE_FAILURES: FailureKind[] = ['navigation_timeout', 'network_error', 'bot_challenge'];
+
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429]);
+
+// Selector misses, parse failures and 4xx responses fail the same way on every attempt, so they are not retried
+export const isRetryable = (result: ScrapingResult): boolean => {
+  const failure = failureOf(result);
+  if (!failure) return false;
+  if (RETRYABLE_FAILURES.includes(failure)) return true;
+
+  const status = result.statusCode;
+  return failure === 'http_status' && status !== undefined && (status >= 500 || RETRYABLE_STATUS_CODES.has(status));
+};
+
+// A site refusing this client - another attempt with the same client meets the same wall
+export const isBlocked = (result: ScrapingResult): boolean => {
+  return !result.success && (failureOf(result) === 'bot_challenge' || result.statusCode === 403);
+};
+
+// The page is gone; no retry or other strategy will find items on it
+export const isPermanentFailure = (result: ScrapingResult): boolean => {
+  return result.statusCode === 404 || result.statusCode === 410;
+};
+
+// Exponential backoff with "equal jitter": half the delay is fixed, the other half random
+export const getBackoffDelay = (retry: number, policy: RetryPolicy): number => {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, retry - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+export const runWithRetry = async (
+  attempt: (attemptNumber: number) => Promise<ScrapingResult>,
+  policy: RetryPolicy,
+  onRetry?: (result: ScrapingResult, retry: number, delay: number) => void,
+  retryable: (result: ScrapingResult) => boolean = isRetryable
+): Promise<ScrapingResult> => {
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    const result = await attempt(attempts);
+
+    if (attempts > policy.maxRetries || !retryable(result)) {
+      return { ...result, attempts };
+    }
+
+    const delay = getBackoffDelay(attempts, policy);
+    if (onRetry) onRetry(result, attempts, delay);
+    await sleep(delay);
+  }
+};
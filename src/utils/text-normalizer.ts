@@ -0,0 +1,44 @@
+// Zero-width characters, BOMs and other invisible formatting that sites sprinkle into titles
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u00ad\u200b-\u200f\u2060\ufeff\ufffd]/g;
+
+const TURKISH_FOLDS: { [char: string]: string } = {
+  'ı': 'i',
+  'ş': 's',
+  'ç': 'c',
+  'ğ': 'g',
+  'ö': 'o',
+  'ü': 'u'
+};
+
+// Display text: keeps every Unicode letter (ç, ş, ğ, ı, ö, ü, İ...), collapses whitespace
+export const normalizeText = (text: string, maxLength?: number): string => {
+  const normalized = (text || '')
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return maxLength ? normalized.substring(0, maxLength).trim() : normalized;
+};
+
+// Turkish-aware lowercase ("İ" -> "i", "I" -> "ı") with accents folded away, punctuation kept
+export const foldText = (text: string): string => {
+  return normalizeText(text)
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[ışçğöü]/g, char => TURKISH_FOLDS[char])
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .normalize('NFC');
+};
+
+// Matching/search key: folded, letters and digits only, single spaces
+export const toSearchKey = (text: string): string => {
+  return foldText(text)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+};
+
+export const matchesSearch = (text: string, query: string): boolean => {
+  const needle = toSearchKey(query);
+  return needle.length === 0 || toSearchKey(text).includes(needle);
+};